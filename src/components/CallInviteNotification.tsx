@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import { collection, onSnapshot, query, where } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { useAuth } from '../contexts/AuthContext';
+import { respondToCallInvite } from '../utils/api';
+
+interface IncomingInvite {
+    id: string;
+    fromName: string;
+    expiresAt: number;
+}
+
+// Shows call invites from connections wherever the user is in the app
+export default function CallInviteNotification() {
+    const { user } = useAuth();
+    const router = useRouter();
+    const [invites, setInvites] = useState<IncomingInvite[]>([]);
+    const [now, setNow] = useState(Date.now());
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!user) return;
+
+        const invitesQuery = query(
+            collection(db, 'call_invites'),
+            where('toId', '==', user.uid),
+            where('status', '==', 'pending')
+        );
+        const unsubscribe = onSnapshot(invitesQuery, (snapshot) => {
+            setInvites(snapshot.docs.map(doc => ({
+                id: doc.id,
+                fromName: doc.data().fromName,
+                expiresAt: doc.data().expiresAt.toMillis()
+            })));
+        });
+
+        return () => unsubscribe();
+    }, [user]);
+
+    // Hide invites once they lapse, the sweeper marks them expired a little later
+    useEffect(() => {
+        if (invites.length === 0) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [invites.length]);
+
+    const respond = async (inviteId: string, action: 'accept' | 'decline') => {
+        setError(null);
+        try {
+            const data = await respondToCallInvite(inviteId, action);
+            if (data.sessionId) {
+                router.push(`/call/${data.sessionId}`).catch(console.error);
+            }
+        } catch (error) {
+            console.error('Failed to respond to call invite:', error);
+            setError(error instanceof Error ? error.message : 'Failed to respond to invite');
+        }
+    };
+
+    const openInvites = invites.filter(invite => invite.expiresAt > now);
+    if (openInvites.length === 0) return null;
+
+    return (
+        <div className="fixed bottom-4 right-4 z-40 space-y-3">
+            {openInvites.map(invite => (
+                <div key={invite.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-4 w-72">
+                    <p className="text-black dark:text-white font-medium mb-1">
+                        📞 {invite.fromName} wants to video call
+                    </p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                        Expires in {Math.ceil((invite.expiresAt - now) / 1000)}s
+                    </p>
+                    {error && <p className="text-sm text-red-500 dark:text-red-400 mb-2">{error}</p>}
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => respond(invite.id, 'accept')}
+                            className="flex-1 px-3 py-1 rounded-md bg-purple-600 hover:bg-purple-700 text-white"
+                        >
+                            Accept
+                        </button>
+                        <button
+                            onClick={() => respond(invite.id, 'decline')}
+                            className="flex-1 px-3 py-1 rounded-md bg-gray-200 hover:bg-gray-300 text-black dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white"
+                        >
+                            Decline
+                        </button>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useMessages } from '../hooks/useMessages';
+import { useChatPresence } from '../hooks/useChatPresence';
+
+interface ChatWindowProps {
+    // Document the conversation hangs off, e.g. `sessions/{id}` or `connections/{id}`
+    parentPath: string;
+    onSend: (text: string) => Promise<unknown>;
+    disabled?: boolean;
+    disabledPlaceholder?: string;
+}
+
+// Message list and input shared by the session chat and connection conversations
+export default function ChatWindow({ parentPath, onSend, disabled = false, disabledPlaceholder = 'Chat closed' }: ChatWindowProps) {
+    const { user } = useAuth();
+    const [message, setMessage] = useState('');
+    const [sendError, setSendError] = useState<string | null>(null);
+    const { messages, hasMore, isLoadingOlder, loadOlder } = useMessages(parentPath);
+    const { partnerTyping, partnerLastRead, notifyTyping, stopTyping } = useChatPresence(parentPath, user?.uid, messages);
+
+    const sendMessage = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!message.trim() || !user || disabled) return;
+
+        try {
+            setSendError(null);
+            await onSend(message.trim());
+
+            setMessage('');
+            stopTyping();
+        } catch (error) {
+            console.error('Error sending message:', error);
+            setSendError(error instanceof Error ? error.message : 'Failed to send message');
+        }
+    };
+
+    return (
+        <>
+            <div className="flex-1 p-4 overflow-y-auto space-y-4">
+                {hasMore && (
+                    <div className="text-center">
+                        <button
+                            onClick={loadOlder}
+                            disabled={isLoadingOlder}
+                            className="text-sm text-purple-600 dark:text-purple-400 hover:underline disabled:opacity-50"
+                        >
+                            {isLoadingOlder ? 'Loading...' : 'Load earlier messages'}
+                        </button>
+                    </div>
+                )}
+                {messages.map((msg) => (
+                    <div
+                        key={msg.id}
+                        className={`flex ${msg.senderId === user?.uid ? 'justify-end' : 'justify-start'}`}
+                    >
+                        <div
+                            className={`max-w-[80%] rounded-lg px-4 py-2 ${msg.senderId === user?.uid
+                                ? 'bg-purple-600 text-white'
+                                : 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white'
+                                }`}
+                        >
+                            <div>{msg.text}</div>
+                            {msg.timestamp && (
+                                <div className={`text-xs mt-1 ${msg.senderId === user?.uid
+                                    ? 'text-purple-200'
+                                    : 'text-gray-500 dark:text-gray-400'
+                                    }`}>
+                                    {msg.timestamp && new Date(msg.timestamp).toLocaleTimeString([], {
+                                        hour: '2-digit',
+                                        minute: '2-digit'
+                                    })}
+                                    {msg.senderId === user?.uid && partnerLastRead !== null && msg.timestamp.getTime() <= partnerLastRead && ' · Seen'}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                ))}
+                {partnerTyping && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 italic">Typing...</p>
+                )}
+            </div>
+
+            <form onSubmit={sendMessage} className="p-4 border-t dark:border-gray-700">
+                {sendError && <p className="text-sm text-red-500 dark:text-red-400 mb-2">{sendError}</p>}
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={message}
+                        onChange={(e) => {
+                            setMessage(e.target.value);
+                            notifyTyping();
+                        }}
+                        placeholder={disabled ? disabledPlaceholder : 'Type a message...'}
+                        disabled={disabled}
+                        className="flex-1 rounded-full text-white px-4 py-2 bg-gray-100 dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-600"
+                    />
+                    <button
+                        type="submit"
+                        className="bg-purple-600 hover:bg-purple-700 text-white rounded-full p-2 transition-colors"
+                        disabled={!message.trim() || disabled}
+                    >
+                        <SendIcon />
+                    </button>
+                </div>
+            </form>
+        </>
+    );
+}
+
+const SendIcon = () => (
+    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+    </svg>
+);
@@ -7,7 +7,7 @@ import { useRouter } from 'next/router';
 import { stopMediaStream } from '../utils/media';
 
 export default function Layout({ children, title }: { children: React.ReactNode, title?: string }) {
-    const { user, logout } = useAuth();
+    const { user, logout, isAdmin } = useAuth();
     const router = useRouter();
     const pageTitle = title ? `${title} | Call Me Maybe` : 'Call Me Maybe - Quick Video Chats';
 
@@ -51,6 +51,20 @@ export default function Layout({ children, title }: { children: React.ReactNode,
 
                         {user && (
                             <div className="flex items-center gap-4">
+                                {isAdmin && (
+                                    <Link
+                                        href="/admin"
+                                        className="text-sm text-gray-600 dark:text-gray-300 hover:text-purple-600 dark:hover:text-purple-400"
+                                    >
+                                        Admin
+                                    </Link>
+                                )}
+                                <Link
+                                    href="/connections"
+                                    className="text-sm text-gray-600 dark:text-gray-300 hover:text-purple-600 dark:hover:text-purple-400"
+                                >
+                                    Connections
+                                </Link>
                                 <Link
                                     href="/profile"
                                     className="flex items-center gap-2 text-gray-600 dark:text-gray-300 hover:text-purple-600 dark:hover:text-purple-400"
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { getAuthHeader } from '../utils/api';
+import { updateProfile } from '../utils/api';
 
 interface ProfileSetupProps {
     onComplete: () => void;
@@ -8,6 +8,7 @@ interface ProfileSetupProps {
 export default function ProfileSetup({ onComplete }: ProfileSetupProps) {
     const [name, setName] = useState('');
     const [gender, setGender] = useState<'male' | 'female' | ''>('');
+    const [lookingFor, setLookingFor] = useState<'male' | 'female' | 'any'>('any');
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -22,20 +23,12 @@ export default function ProfileSetup({ onComplete }: ProfileSetupProps) {
         setError(null);
 
         try {
-            const response = await fetch('/api/profile/update', {
-                method: 'POST',
-                headers: await getAuthHeader(),
-                body: JSON.stringify({
-                    name: name.trim(),
-                    gender,
-                }),
+            await updateProfile({
+                name: name.trim(),
+                gender,
+                lookingFor,
             });
 
-            if (!response.ok) {
-                const data = await response.json();
-                throw new Error(data.error || 'Failed to update profile');
-            }
-
             onComplete();
         } catch (error) {
             console.error('Error saving profile:', error);
@@ -111,6 +104,36 @@ export default function ProfileSetup({ onComplete }: ProfileSetupProps) {
                         </div>
                     </div>
 
+                    <div>
+                        <p className="mb-2 text-sm text-gray-600 dark:text-gray-400">
+                            I want to meet
+                        </p>
+                        <div className="flex rounded-md shadow-sm">
+                            {([
+                                { value: 'male', label: 'Men' },
+                                { value: 'female', label: 'Women' },
+                                { value: 'any', label: 'Anyone' },
+                            ] as const).map(option => (
+                                <label key={option.value} className="flex-1 relative block">
+                                    <input
+                                        type="radio"
+                                        name="lookingFor"
+                                        value={option.value}
+                                        checked={lookingFor === option.value}
+                                        onChange={() => setLookingFor(option.value)}
+                                        className="sr-only"
+                                    />
+                                    <div className={`cursor-pointer text-center py-2 border ${lookingFor === option.value
+                                        ? 'bg-purple-600 text-white border-purple-600'
+                                        : 'border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300'
+                                        }`}>
+                                        {option.label}
+                                    </div>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
                     <div>
                         <button
                             type="submit"
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { submitReport } from '../utils/api';
+import { MAX_REPORT_DETAILS_LENGTH, REPORT_REASONS, ReportReason } from '../lib/reports';
+
+interface ReportModalProps {
+    sessionId: string;
+    onClose: () => void;
+}
+
+export default function ReportModal({ sessionId, onClose }: ReportModalProps) {
+    const [reason, setReason] = useState<ReportReason | ''>('');
+    const [details, setDetails] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [submitted, setSubmitted] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!reason) {
+            setError('Please pick a reason');
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            await submitReport(sessionId, reason, details);
+            setSubmitted(true);
+        } catch (error) {
+            console.error('Error submitting report:', error);
+            setError(error instanceof Error ? error.message : 'Failed to submit report');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-6 max-w-md w-full mx-4">
+                {submitted ? (
+                    <div className="text-center">
+                        <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Thanks for letting us know</h3>
+                        <p className="text-gray-600 dark:text-gray-300 mb-6">
+                            Our moderators will review this report.
+                        </p>
+                        <button
+                            onClick={onClose}
+                            className="w-full py-2 px-4 bg-purple-600 rounded-md text-white hover:bg-purple-700"
+                        >
+                            Close
+                        </button>
+                    </div>
+                ) : (
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                        <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Report this person</h3>
+
+                        <div className="space-y-2">
+                            {REPORT_REASONS.map(option => (
+                                <label key={option.value} className="flex items-center text-gray-900 dark:text-white">
+                                    <input
+                                        type="radio"
+                                        name="reason"
+                                        value={option.value}
+                                        checked={reason === option.value}
+                                        onChange={() => setReason(option.value)}
+                                        className="mr-2"
+                                    />
+                                    {option.label}
+                                </label>
+                            ))}
+                        </div>
+
+                        <textarea
+                            value={details}
+                            onChange={(e) => setDetails(e.target.value)}
+                            maxLength={MAX_REPORT_DETAILS_LENGTH}
+                            rows={4}
+                            placeholder="Tell us what happened (optional)"
+                            className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        />
+
+                        {error && (
+                            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+                        )}
+
+                        <div className="flex gap-4">
+                            <button
+                                type="submit"
+                                disabled={isSubmitting}
+                                className={`flex-1 py-2 px-4 bg-red-500 hover:bg-red-600 text-white rounded-md ${isSubmitting ? 'opacity-50 cursor-not-allowed' : ''}`}
+                            >
+                                {isSubmitting ? 'Sending...' : 'Submit Report'}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-black dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white rounded-md"
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+}
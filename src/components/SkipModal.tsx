@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { skipSession } from '../utils/api';
+import { SKIP_REASONS, SkipReason } from '../lib/skips';
+
+interface SkipModalProps {
+    sessionId: string;
+    onClose: () => void;
+}
+
+// Asks why the user is leaving before ending the call. The partner never sees the reason.
+export default function SkipModal({ sessionId, onClose }: SkipModalProps) {
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSkip = async (reason: SkipReason) => {
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            // The session page follows the session document and moves on once it has ended
+            await skipSession(sessionId, reason);
+        } catch (error) {
+            console.error('Error skipping session:', error);
+            setError(error instanceof Error ? error.message : 'Failed to skip');
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl max-w-sm w-full mx-4 shadow-xl">
+                <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-1">Leave this call?</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                    Let us know why, it stays between you and us.
+                </p>
+                <div className="space-y-2">
+                    {SKIP_REASONS.map(option => (
+                        <button
+                            key={option.value}
+                            onClick={() => handleSkip(option.value)}
+                            disabled={isSubmitting}
+                            className="w-full text-left px-4 py-2 rounded-md bg-gray-100 hover:bg-gray-200 text-black dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-white disabled:opacity-50"
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                {error && <p className="text-red-500 dark:text-red-400 text-sm mt-3">{error}</p>}
+                <button
+                    onClick={onClose}
+                    disabled={isSubmitting}
+                    className="w-full mt-4 px-4 py-2 text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white"
+                >
+                    Stay in the call
+                </button>
+            </div>
+        </div>
+    );
+}
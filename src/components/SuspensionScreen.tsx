@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { ACCOUNT_SUSPENDED_EVENT, AccountSuspension } from '../utils/api';
+
+export default function SuspensionScreen() {
+    const { logout } = useAuth();
+    const [suspension, setSuspension] = useState<AccountSuspension | null>(null);
+
+    useEffect(() => {
+        const handleSuspended = (event: Event) => {
+            setSuspension((event as CustomEvent<AccountSuspension>).detail);
+        };
+
+        window.addEventListener(ACCOUNT_SUSPENDED_EVENT, handleSuspended);
+        return () => window.removeEventListener(ACCOUNT_SUSPENDED_EVENT, handleSuspended);
+    }, []);
+
+    if (!suspension) return null;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+            <div className="bg-white dark:bg-gray-800 p-8 rounded-2xl max-w-md w-full mx-4 shadow-xl text-center">
+                <div className="w-16 h-16 bg-red-100 dark:bg-red-900/30 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <span className="text-3xl">🚫</span>
+                </div>
+                <h3 className="text-2xl font-semibold text-gray-900 dark:text-white mb-2">
+                    {suspension.permanent ? 'Your account has been banned' : 'Your account is suspended'}
+                </h3>
+                {suspension.until && (
+                    <p className="text-gray-600 dark:text-gray-300 mb-2">
+                        You can use Call Me Maybe again on{' '}
+                        <span className="font-semibold">{new Date(suspension.until).toLocaleString()}</span>
+                    </p>
+                )}
+                {suspension.reason && (
+                    <p className="text-gray-600 dark:text-gray-300 mb-6">
+                        Reason: {suspension.reason}
+                    </p>
+                )}
+                <button
+                    onClick={logout}
+                    className="w-full bg-purple-600 hover:bg-purple-700 text-white px-6 py-3 rounded-xl font-semibold"
+                >
+                    Logout
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,18 @@
+import type { PeerOptions } from 'peerjs';
+
+// Signaling server the browser registers its peer with. Defaults to the public PeerJS broker,
+// point it at `npm run signaling` (or your own deployment of it) to not depend on it.
+export const peerServerOptions: PeerOptions = {
+    host: process.env.NEXT_PUBLIC_PEER_HOST || '0.peerjs.com',
+    port: Number(process.env.NEXT_PUBLIC_PEER_PORT) || 443,
+    path: process.env.NEXT_PUBLIC_PEER_PATH || '/',
+    key: process.env.NEXT_PUBLIC_PEER_KEY || 'peerjs',
+    secure: process.env.NEXT_PUBLIC_PEER_SECURE !== 'false'
+};
+
+// How the two browsers in a call find each other: through the PeerJS server above, or through
+// Firestore documents on the session, which keeps calls working while the PeerJS server is down
+export type SignalingProvider = 'peerjs' | 'firestore';
+
+export const signalingProvider: SignalingProvider =
+    process.env.NEXT_PUBLIC_SIGNALING_PROVIDER === 'firestore' ? 'firestore' : 'peerjs';
@@ -14,6 +14,7 @@ import { useRouter } from 'next/router';
 interface UserProfile {
     name?: string;
     gender?: 'male' | 'female';
+    lookingFor?: 'male' | 'female' | 'any';
 }
 
 interface AuthContextType {
@@ -23,6 +24,7 @@ interface AuthContextType {
     logout: () => Promise<void>;
     userProfile: UserProfile | null;
     profileComplete: boolean;
+    isAdmin: boolean;
     signInWithEmail: (email: string, password: string) => Promise<void>;
     signUpWithEmail: (email: string, password: string) => Promise<void>;
 }
@@ -35,6 +37,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     const [loading, setLoading] = useState(true);
     const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
     const [profileComplete, setProfileComplete] = useState(false);
+    const [isAdmin, setIsAdmin] = useState(false);
 
     useEffect(() => {
         const unsubscribe = onAuthStateChanged(auth, async (user) => {
@@ -61,6 +64,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                 } catch (error) {
                     console.error('Firestore error:', error);
                 }
+
+                // Set with `npm run grant-admin`, the API checks it again on every admin request
+                const tokenResult = await user.getIdTokenResult();
+                setIsAdmin(tokenResult.claims.admin === true);
+            } else {
+                setIsAdmin(false);
             }
             setUser(user);
             setLoading(false);
@@ -129,7 +138,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             signUpWithEmail,
             logout,
             userProfile,
-            profileComplete
+            profileComplete,
+            isAdmin
         }}>
             {!loading && children}
         </AuthContext.Provider>
@@ -0,0 +1,660 @@
+import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import type { SignalingProvider } from '../config/peer';
+import { INITIAL_MEDIA_STATE, isControlMessage, MediaState, mediaStateMessage } from '../lib/callControl';
+import { callReducer, INITIAL_CALL_STATUS } from '../lib/callMachine';
+import { createSignalingClient, SignalingCall, SignalingClient, SignalingDataConnection } from '../lib/signaling';
+import { getIceServers } from '../utils/api';
+import { setGlobalStream, stopMediaStream } from '../utils/media';
+
+// After a refresh the signaling server can hold on to our old peer ID for a few seconds
+const MAX_REGISTER_ATTEMPTS = 5;
+const REGISTER_RETRY_MS = 3000;
+
+// Used when /api/ice-servers can't be reached, calls behind strict NATs will fail without TURN
+const FALLBACK_ICE_SERVERS: RTCIceServer[] = [
+    { urls: 'stun:stun.l.google.com:19302' },
+    { urls: 'stun:stun.relay.metered.ca:80' }
+];
+
+const VIDEO_CONSTRAINTS: MediaTrackConstraints = {
+    width: { ideal: 1280 },
+    height: { ideal: 720 },
+    frameRate: { ideal: 30, max: 60 },
+    aspectRatio: { ideal: 1.7777777778 }
+};
+
+export interface CallRegistration {
+    // We were in this call before a refresh or a drop, so we call the partner back right away
+    resuming: boolean;
+    partnerOnline?: boolean;
+}
+
+export interface UseCallOptions {
+    // Our signaling ID, nothing happens until it is set
+    peerId: string | null;
+    sessionId?: string;
+    provider?: SignalingProvider;
+    // Runs once we are registered with the signaling backend, e.g. to publish the peer ID
+    onRegistered?: (peerId: string) => Promise<CallRegistration | void>;
+    // Peer ID to dial: null while the partner isn't there yet, undefined to stop trying.
+    // Without it calls are only placed through callPeer, and a dropped call ends instead of reconnecting.
+    resolvePartner?: () => Promise<string | null | undefined>;
+    // Which incoming calls to answer, all of them by default
+    acceptCall?: (peerId: string) => boolean;
+    // Runs when the peer goes away, e.g. to withdraw the peer ID
+    onUnregister?: () => void;
+}
+
+// Mute and stepping away only disable tracks, so they come back instantly
+function applyMediaState(stream: MediaStream | null, state: MediaState) {
+    stream?.getAudioTracks().forEach(track => {
+        track.enabled = !state.muted && !state.away;
+    });
+    stream?.getVideoTracks().forEach(track => {
+        track.enabled = !state.away;
+    });
+}
+
+// The video sender outlives its track (it is null while the camera is off), so look it up by transceiver
+function getVideoSender(pc: RTCPeerConnection | undefined) {
+    return pc?.getTransceivers()
+        .find(transceiver => transceiver.sender.track?.kind === 'video' || transceiver.receiver.track.kind === 'video')
+        ?.sender;
+}
+
+// Watches packet loss and lowers or raises the video bitrate to match, returns a function that stops it
+function monitorConnectionQuality(pc: RTCPeerConnection, onDetail: (detail: string) => void) {
+    let lastPacketLoss = 0;
+    let consecutivePoorConnections = 0;
+
+    const setMaxBitrate = (scale: (current: number | undefined) => number) => {
+        const sender = pc.getSenders().find(s => s.track?.kind === 'video');
+        if (!sender) return;
+        const params = sender.getParameters();
+        if (!params.encodings) {
+            params.encodings = [{}];
+        }
+        params.encodings[0].maxBitrate = scale(params.encodings[0].maxBitrate);
+        sender.setParameters(params).catch(console.error);
+    };
+
+    const interval = setInterval(async () => {
+        try {
+            const stats = await pc.getStats();
+            let totalPacketsLost = 0;
+            let totalPackets = 0;
+            let currentBitrate = 0;
+            let lastTimestamp: number | undefined;
+            let lastBytes = 0;
+
+            stats.forEach(stat => {
+                if (stat.type === 'inbound-rtp' && 'packetsLost' in stat) {
+                    totalPacketsLost += stat.packetsLost as number;
+                    totalPackets += (stat.packetsReceived as number) + (stat.packetsLost as number);
+
+                    // Calculate bitrate
+                    if (lastTimestamp && 'bytesReceived' in stat) {
+                        const deltaTime = (stat.timestamp - lastTimestamp) / 1000;
+                        const deltaBytes = (stat.bytesReceived as number) - lastBytes;
+                        currentBitrate = (deltaBytes * 8) / deltaTime; // bits per second
+                    }
+
+                    lastTimestamp = stat.timestamp;
+                    if ('bytesReceived' in stat) {
+                        lastBytes = stat.bytesReceived as number;
+                    }
+                }
+            });
+
+            if (totalPackets === 0) return;
+
+            const lossRate = (totalPacketsLost / totalPackets) * 100;
+            const packetLossIncrease = totalPacketsLost - lastPacketLoss;
+            lastPacketLoss = totalPacketsLost;
+
+            if (lossRate > 15 || packetLossIncrease > 50) {
+                consecutivePoorConnections++;
+                if (consecutivePoorConnections >= 3) {
+                    setMaxBitrate(current => Math.max(250000, (current || 1000000) * 0.8));
+                    onDetail('Reducing video quality due to poor connection');
+                }
+            } else {
+                consecutivePoorConnections = 0;
+                // Gradually increase quality if connection is good
+                if (currentBitrate > 0 && currentBitrate < 100000) { // Less than 100kbps
+                    setMaxBitrate(current => Math.min(1000000, (current || 250000) * 1.2));
+                }
+            }
+        } catch (error) {
+            console.error('Failed to get connection stats:', error);
+        }
+    }, 2000);
+
+    return () => clearInterval(interval);
+}
+
+// One video call: signaling, local media, the call itself and reconnecting after drops.
+// Pages render from the returned state and never touch the peer objects themselves.
+export function useCall(options: UseCallOptions) {
+    const { peerId } = options;
+    const [status, dispatch] = useReducer(callReducer, INITIAL_CALL_STATUS);
+    const [isRegistered, setIsRegistered] = useState(false);
+    const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+    const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+    const [remotePeerId, setRemotePeerId] = useState<string | null>(null);
+    // Ours, and the partner's as they last told us over the control channel
+    const [mediaState, setMediaState] = useState<MediaState>(INITIAL_MEDIA_STATE);
+    const [remoteMediaState, setRemoteMediaState] = useState<MediaState>(INITIAL_MEDIA_STATE);
+    const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+    const [selectedCamera, setSelectedCamera] = useState('');
+
+    // Signaling callbacks outlive renders, so everything they read lives in refs
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+    const clientRef = useRef<SignalingClient | null>(null);
+    const callRef = useRef<SignalingCall | null>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const dataRef = useRef<SignalingDataConnection | null>(null);
+    const mediaStateRef = useRef<MediaState>(INITIAL_MEDIA_STATE);
+    const cameraRef = useRef('');
+    // Set by the effect below while a peer is up
+    const controlsRef = useRef<{ callPeer: (peerId: string) => void; hangUp: () => void } | null>(null);
+
+    const updateLocalStream = (stream: MediaStream | null) => {
+        streamRef.current = stream;
+        setLocalStream(stream);
+        setGlobalStream(stream);
+    };
+
+    // Applies a change to our tracks and tells the partner about it
+    const updateMediaState = (changes: Partial<MediaState>) => {
+        const state = { ...mediaStateRef.current, ...changes };
+        mediaStateRef.current = state;
+        applyMediaState(streamRef.current, state);
+        setMediaState(state);
+        if (dataRef.current?.open) {
+            dataRef.current.send(mediaStateMessage(state));
+        }
+    };
+
+    useEffect(() => {
+        if (!peerId) return;
+
+        // Taken once, so cleaning up after a peer ID change doesn't use the next call's settings
+        const { sessionId, provider, onUnregister } = optionsRef.current;
+        const canReconnect = () => !!optionsRef.current.resolvePartner;
+        let registerAttempts = 0;
+        let destroyed = false;
+        let stopQualityMonitor: (() => void) | null = null;
+
+        const getLocalStream = async () => {
+            if (streamRef.current) return streamRef.current;
+            try {
+                const stream = await navigator.mediaDevices.getUserMedia({
+                    video: {
+                        ...VIDEO_CONSTRAINTS,
+                        deviceId: cameraRef.current ? { exact: cameraRef.current } : undefined
+                    },
+                    audio: {
+                        echoCancellation: true,
+                        noiseSuppression: true,
+                        autoGainControl: true,
+                        sampleRate: 48000,
+                        sampleSize: 16
+                    }
+                });
+
+                if (destroyed) {
+                    stream.getTracks().forEach(track => track.stop());
+                    return null;
+                }
+                applyMediaState(stream, mediaStateRef.current);
+                updateLocalStream(stream);
+                return stream;
+            } catch (err) {
+                console.error('Failed to get local stream:', err);
+                dispatch({ type: 'error', error: 'Failed to access camera/microphone' });
+                return null;
+            }
+        };
+
+        // The control channel runs next to the call and is replaced together with it
+        const setupDataConnection = (connection: SignalingDataConnection) => {
+            const previousConnection = dataRef.current;
+            dataRef.current = connection;
+            if (previousConnection && previousConnection !== connection) {
+                previousConnection.close();
+            }
+
+            connection.on('open', () => {
+                if (dataRef.current !== connection) return;
+                connection.send(mediaStateMessage(mediaStateRef.current));
+            });
+
+            connection.on('data', (data) => {
+                if (dataRef.current !== connection || !isControlMessage(data)) return;
+                setRemoteMediaState(data.state);
+            });
+
+            connection.on('close', () => {
+                if (dataRef.current === connection) {
+                    dataRef.current = null;
+                }
+            });
+
+            connection.on('error', (err) => console.error('Control channel error:', err));
+        };
+
+        const closeDataConnection = () => {
+            const connection = dataRef.current;
+            dataRef.current = null;
+            connection?.close();
+            setRemoteMediaState(INITIAL_MEDIA_STATE);
+        };
+
+        const watchConnection = (call: SignalingCall, pc: RTCPeerConnection) => {
+            pc.addEventListener('iceconnectionstatechange', () => {
+                if (callRef.current !== call) return;
+                console.log('ICE connection state:', pc.iceConnectionState);
+                switch (pc.iceConnectionState) {
+                    case 'checking':
+                        dispatch({ type: 'status', detail: 'Establishing connection...' });
+                        break;
+                    case 'connected':
+                        dispatch({ type: 'connected' });
+                        break;
+                    case 'completed':
+                        dispatch({ type: 'connected', detail: 'Connection optimized' });
+                        break;
+                    case 'disconnected':
+                        dispatch({ type: 'reconnecting', detail: 'Connection interrupted - attempting to reconnect...' });
+                        break;
+                    case 'failed':
+                        dispatch({ type: 'reconnecting', detail: 'Connection lost - reconnecting...' });
+                        break;
+                }
+            });
+
+            pc.addEventListener('connectionstatechange', () => {
+                console.log('Connection state changed:', pc.connectionState);
+                // Restarting ICE would need a renegotiation through signaling, calling again is simpler
+                if (callRef.current === call && pc.connectionState === 'failed') {
+                    call.close();
+                }
+            });
+
+            stopQualityMonitor?.();
+            stopQualityMonitor = monitorConnectionQuality(pc, detail => dispatch({ type: 'status', detail }));
+        };
+
+        const setupCall = (call: SignalingCall) => {
+            // A newer call (usually the partner rejoining) replaces the old one
+            const previousCall = callRef.current;
+            callRef.current = call;
+            if (previousCall && previousCall !== call) {
+                previousCall.close();
+            }
+            setRemotePeerId(call.peer);
+
+            if (call.peerConnection) {
+                watchConnection(call, call.peerConnection);
+            }
+
+            call.on('stream', (stream) => {
+                if (callRef.current !== call) return;
+                console.log('Received remote stream');
+                setRemoteStream(stream);
+                dispatch({ type: 'connected' });
+            });
+
+            // Losing the call is not the end of a session: keep our media and wait for the partner
+            // to call back, or call them again ourselves once they are back
+            const handleCallLost = () => {
+                if (callRef.current !== call) return;
+                callRef.current = null;
+                stopQualityMonitor?.();
+                stopQualityMonitor = null;
+                setRemoteStream(null);
+                closeDataConnection();
+                if (destroyed) return;
+
+                if (!canReconnect()) {
+                    dispatch({ type: 'ended' });
+                    return;
+                }
+                dispatch({ type: 'reconnecting', detail: 'Call interrupted - reconnecting...' });
+                setTimeout(() => dialPartner(), REGISTER_RETRY_MS);
+            };
+
+            call.on('error', (err) => {
+                console.error('Call error:', err);
+                handleCallLost();
+            });
+
+            call.on('close', () => {
+                console.log('Call closed');
+                handleCallLost();
+            });
+        };
+
+        const placeCall = async (remoteId: string) => {
+            const stream = await getLocalStream();
+            const client = clientRef.current;
+            if (destroyed || callRef.current || !client || client.destroyed || !stream) return;
+
+            console.log('Attempting to initiate call to:', remoteId);
+            dispatch({ type: 'connecting' });
+            setupCall(client.call(remoteId, stream));
+            setupDataConnection(client.connect(remoteId));
+        };
+
+        // Calls the partner once their peer ID is known. Without force only the peer with the lower ID
+        // calls, so the two sides don't dial each other at the same time and drop both calls.
+        const dialPartner = async (force = false) => {
+            const { resolvePartner } = optionsRef.current;
+            if (!resolvePartner || destroyed || callRef.current) return;
+
+            try {
+                const partnerPeerId = await resolvePartner();
+                if (partnerPeerId === undefined || destroyed) return;
+                if (!partnerPeerId) {
+                    console.log('No partner peer ID yet, retrying in 1s');
+                    setTimeout(() => dialPartner(force), 1000);
+                    return;
+                }
+
+                console.log('Partner peer ID found:', partnerPeerId);
+                setRemotePeerId(partnerPeerId);
+                if (!force && peerId > partnerPeerId) {
+                    console.log('Waiting for the partner to call');
+                    return;
+                }
+                await placeCall(partnerPeerId);
+            } catch (error) {
+                console.error('Call initiation failed:', error);
+                setTimeout(() => dialPartner(force), 2000);
+            }
+        };
+
+        const initializeClient = async () => {
+            console.log('Initializing peer:', peerId);
+
+            // Fetched for every new peer, so TURN credentials are fresh after a reconnect
+            let iceServers = FALLBACK_ICE_SERVERS;
+            try {
+                iceServers = await getIceServers();
+            } catch (error) {
+                console.error('Failed to load ICE servers, using STUN only:', error);
+            }
+            if (destroyed) return;
+
+            const client = createSignalingClient(peerId, {
+                sessionId,
+                provider,
+                debug: true,
+                rtcConfig: {
+                    iceServers,
+                    iceTransportPolicy: 'all',
+                    iceCandidatePoolSize: 10,
+                    bundlePolicy: 'max-bundle',
+                    rtcpMuxPolicy: 'require'
+                }
+            });
+            clientRef.current = client;
+
+            client.on('open', async () => {
+                console.log('Peer connection opened:', peerId);
+                registerAttempts = 0;
+                setIsRegistered(true);
+
+                const stream = await getLocalStream();
+                if (!stream) return;
+
+                try {
+                    const registration = await optionsRef.current.onRegistered?.(peerId);
+                    if (destroyed) return;
+
+                    const resuming = !!registration?.resuming;
+                    if (resuming) {
+                        dispatch({
+                            type: 'reconnecting',
+                            detail: registration?.partnerOnline
+                                ? 'Reconnecting to your partner...'
+                                : 'Waiting for your partner to come back...'
+                        });
+                    } else if (canReconnect()) {
+                        dispatch({ type: 'connecting', detail: 'Waiting for your partner...' });
+                    }
+
+                    // A rejoining peer always calls, since the partner is still holding the dead call
+                    dialPartner(resuming);
+                } catch (error) {
+                    console.error('Peer setup failed:', error);
+                    dispatch({ type: 'error', error: 'Failed to connect with partner' });
+                }
+            });
+
+            client.on('call', async (call) => {
+                console.log('Received incoming call from:', call.peer);
+                const { acceptCall } = optionsRef.current;
+                if (acceptCall && !acceptCall(call.peer)) {
+                    console.log('Ignoring call from:', call.peer);
+                    return;
+                }
+
+                const stream = await getLocalStream();
+                if (!stream || destroyed) return;
+
+                // A call while we are already connected means the partner came back after a refresh
+                // or a drop, so it replaces the current one
+                console.log(callRef.current ? 'Partner reconnected, replacing call' : 'Answering incoming call');
+                dispatch({ type: 'connecting' });
+                call.answer(stream);
+                setupCall(call);
+            });
+
+            client.on('connection', (connection) => {
+                const { acceptCall } = optionsRef.current;
+                if (destroyed || (acceptCall && !acceptCall(connection.peer))) return;
+                console.log('Control channel from:', connection.peer);
+                setupDataConnection(connection);
+            });
+
+            client.on('error', (error) => {
+                console.error('Peer error:', { type: error.type, message: error.message });
+                if (error.type === 'unavailable-id' && registerAttempts < MAX_REGISTER_ATTEMPTS) {
+                    // The signaling server still holds our ID from before the refresh, it frees it shortly
+                    registerAttempts++;
+                    console.log(`Peer ID still taken, retrying (attempt ${registerAttempts})`);
+                    client.destroy();
+                    setTimeout(() => {
+                        if (!destroyed) initializeClient();
+                    }, REGISTER_RETRY_MS);
+                } else if (error.type === 'peer-unavailable') {
+                    // The partner is between peers, the dropped call handler keeps dialing
+                    console.log('Partner peer unavailable, waiting for them to reconnect');
+                } else {
+                    dispatch({ type: 'error', error: `Connection error: ${error.type}` });
+                }
+            });
+
+            client.on('disconnected', () => {
+                if (destroyed || client.destroyed) return;
+                console.log('Peer disconnected, attempting reconnect');
+                dispatch({ type: 'status', detail: 'Connection interrupted - attempting to reconnect...' });
+                client.reconnect();
+            });
+        };
+
+        const closeCurrentCall = () => {
+            // Clear the ref first so the close handler doesn't treat this as a drop
+            const call = callRef.current;
+            callRef.current = null;
+            stopQualityMonitor?.();
+            stopQualityMonitor = null;
+            call?.close();
+            setRemoteStream(null);
+            closeDataConnection();
+        };
+
+        controlsRef.current = {
+            callPeer: (remoteId: string) => {
+                closeCurrentCall();
+                placeCall(remoteId);
+            },
+            hangUp: () => {
+                closeCurrentCall();
+                dispatch({ type: 'ended' });
+            }
+        };
+
+        initializeClient();
+
+        return () => {
+            console.log('Tearing down call:', peerId);
+            destroyed = true;
+            controlsRef.current = null;
+            closeCurrentCall();
+            clientRef.current?.destroy();
+            clientRef.current = null;
+            setIsRegistered(false);
+
+            streamRef.current?.getTracks().forEach(track => {
+                console.log('Stopping track:', track.kind);
+                track.stop();
+            });
+            updateLocalStream(null);
+            stopMediaStream();
+
+            onUnregister?.();
+        };
+    }, [peerId]);
+
+    useEffect(() => {
+        const getDevices = async () => {
+            try {
+                const allDevices = await navigator.mediaDevices.enumerateDevices();
+                const videoDevices = allDevices.filter(device => device.kind === 'videoinput');
+                setDevices(videoDevices);
+
+                // Default to the first camera if none is selected
+                if (!cameraRef.current && videoDevices.length > 0) {
+                    cameraRef.current = videoDevices[0].deviceId;
+                    setSelectedCamera(videoDevices[0].deviceId);
+                }
+            } catch (error) {
+                console.error('Failed to get devices:', error);
+            }
+        };
+
+        navigator.mediaDevices.addEventListener('devicechange', getDevices);
+        getDevices();
+
+        return () => {
+            navigator.mediaDevices.removeEventListener('devicechange', getDevices);
+        };
+    }, []);
+
+    const toggleMute = useCallback(() => {
+        updateMediaState({ muted: !mediaStateRef.current.muted });
+    }, []);
+
+    const toggleAway = useCallback(() => {
+        updateMediaState({ away: !mediaStateRef.current.away });
+    }, []);
+
+    const toggleVideo = useCallback(async () => {
+        const stream = streamRef.current;
+        if (!stream) return;
+
+        if (!mediaStateRef.current.cameraOff) {
+            // Stop the camera and send nothing instead of a frozen last frame. The ended track stays in the
+            // stream, so a call placed while the camera is off still negotiates video.
+            stream.getVideoTracks().forEach(track => track.stop());
+            try {
+                await getVideoSender(callRef.current?.peerConnection)?.replaceTrack(null);
+            } catch (error) {
+                console.error('Error clearing the video sender:', error);
+            }
+            // The camera is stopped either way, an ended track sends no frames
+            updateMediaState({ cameraOff: true });
+            return;
+        }
+
+        // Turn the camera back on and hand the new track to the call, without renegotiating
+        try {
+            const cameraStream = await navigator.mediaDevices.getUserMedia({
+                video: {
+                    ...VIDEO_CONSTRAINTS,
+                    deviceId: cameraRef.current ? { exact: cameraRef.current } : undefined
+                },
+                audio: false
+            });
+            const videoTrack = cameraStream.getVideoTracks()[0];
+            stream.getVideoTracks().forEach(track => stream.removeTrack(track));
+            stream.addTrack(videoTrack);
+
+            await getVideoSender(callRef.current?.peerConnection)?.replaceTrack(videoTrack);
+            updateMediaState({ cameraOff: false });
+        } catch (error) {
+            console.error('Error re-enabling video:', error);
+            dispatch({ type: 'error', error: 'Failed to turn the camera back on' });
+        }
+    }, []);
+
+    const switchCamera = useCallback(async (deviceId: string) => {
+        cameraRef.current = deviceId;
+        setSelectedCamera(deviceId);
+
+        // With the camera off the choice is used when it is turned back on
+        const stream = streamRef.current;
+        if (!stream || mediaStateRef.current.cameraOff) return;
+
+        // Stop current tracks
+        stream.getVideoTracks().forEach(track => track.stop());
+
+        try {
+            const cameraStream = await navigator.mediaDevices.getUserMedia({
+                video: { deviceId },
+                audio: false
+            });
+
+            // Replace the video track in place, so the local preview keeps its stream
+            const newVideoTrack = cameraStream.getVideoTracks()[0];
+            newVideoTrack.enabled = !mediaStateRef.current.away;
+            stream.getVideoTracks().forEach(track => stream.removeTrack(track));
+            stream.addTrack(newVideoTrack);
+
+            // And on the call, without renegotiating
+            await getVideoSender(callRef.current?.peerConnection)?.replaceTrack(newVideoTrack);
+        } catch (error) {
+            console.error('Failed to switch camera:', error);
+            dispatch({ type: 'error', error: 'Failed to switch camera' });
+        }
+    }, []);
+
+    const callPeer = useCallback((remoteId: string) => controlsRef.current?.callPeer(remoteId), []);
+    const hangUp = useCallback(() => controlsRef.current?.hangUp(), []);
+
+    return {
+        ...status,
+        isRegistered,
+        localStream,
+        remoteStream,
+        remotePeerId,
+        isMuted: mediaState.muted,
+        isVideoOff: mediaState.cameraOff,
+        isAway: mediaState.away,
+        remoteIsMuted: remoteMediaState.muted,
+        remoteIsVideoOff: remoteMediaState.cameraOff,
+        remoteIsAway: remoteMediaState.away,
+        devices,
+        selectedCamera,
+        callPeer,
+        hangUp,
+        toggleMute,
+        toggleVideo,
+        toggleAway,
+        switchCamera
+    };
+}
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { collection, doc, onSnapshot, serverTimestamp, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { ChatMessage } from './useMessages';
+
+// While typing we refresh our flag at most this often, the partner hides it once it goes stale
+const TYPING_REFRESH_MS = 3000;
+const TYPING_TIMEOUT_MS = 6000;
+// Batches read receipts when several messages arrive at once
+const READ_RECEIPT_DELAY_MS = 1000;
+
+// Typing state and read receipts for the two participants of a session or connection, kept in
+// {docPath}/presence/{uid} so keystrokes don't fire every listener on the parent document
+export function useChatPresence(docPath: string | undefined, userId: string | undefined, messages: ChatMessage[]) {
+    const [partnerTyping, setPartnerTyping] = useState(false);
+    const [partnerLastRead, setPartnerLastRead] = useState<number | null>(null);
+    const [lastReadWritten, setLastReadWritten] = useState(0);
+    const lastTypingWrite = useRef(0);
+    const partnerTypingValue = useRef<number | null>(null);
+    const typingTimeout = useRef<ReturnType<typeof setTimeout>>();
+
+    useEffect(() => {
+        if (!docPath || !userId) return;
+
+        const unsubscribe = onSnapshot(collection(db, docPath, 'presence'), (snapshot) => {
+            const own = snapshot.docs.find(presenceDoc => presenceDoc.id === userId)?.data();
+            const partner = snapshot.docs.find(presenceDoc => presenceDoc.id !== userId)?.data();
+
+            setPartnerLastRead(partner?.lastRead?.toMillis() ?? null);
+            setLastReadWritten(prev => Math.max(prev, own?.lastRead?.toMillis() ?? 0));
+
+            // Staleness is measured from when we saw the flag change, so clock skew between
+            // the two browsers doesn't matter
+            const typingValue = partner?.typing?.toMillis() ?? null;
+            if (typingValue === partnerTypingValue.current) return;
+            partnerTypingValue.current = typingValue;
+
+            clearTimeout(typingTimeout.current);
+            setPartnerTyping(typingValue !== null);
+            if (typingValue !== null) {
+                typingTimeout.current = setTimeout(() => setPartnerTyping(false), TYPING_TIMEOUT_MS);
+            }
+        });
+
+        return () => {
+            unsubscribe();
+            clearTimeout(typingTimeout.current);
+        };
+    }, [docPath, userId]);
+
+    // Call on every keystroke, only writes once per TYPING_REFRESH_MS
+    const notifyTyping = useCallback(() => {
+        if (!docPath || !userId || Date.now() - lastTypingWrite.current < TYPING_REFRESH_MS) return;
+
+        lastTypingWrite.current = Date.now();
+        setDoc(doc(db, docPath, 'presence', userId), { typing: serverTimestamp() }, { merge: true })
+            .catch(error => console.error('Failed to update typing state:', error));
+    }, [docPath, userId]);
+
+    // Call after sending so the partner's indicator disappears right away
+    const stopTyping = useCallback(() => {
+        if (!docPath || !userId || lastTypingWrite.current === 0) return;
+
+        lastTypingWrite.current = 0;
+        setDoc(doc(db, docPath, 'presence', userId), { typing: null }, { merge: true })
+            .catch(error => console.error('Failed to update typing state:', error));
+    }, [docPath, userId]);
+
+    // Mark the newest message from the partner as read while the tab is visible
+    const latestIncoming = messages.filter(msg => msg.senderId !== userId).pop()?.timestamp.getTime() ?? 0;
+    useEffect(() => {
+        if (!docPath || !userId || latestIncoming <= lastReadWritten) return;
+
+        const markRead = () => {
+            if (document.visibilityState !== 'visible') return;
+            setLastReadWritten(latestIncoming);
+            setDoc(doc(db, docPath, 'presence', userId), { lastRead: Timestamp.fromMillis(latestIncoming) }, { merge: true })
+                .catch(error => console.error('Failed to update read receipt:', error));
+        };
+
+        const timeout = setTimeout(markRead, READ_RECEIPT_DELAY_MS);
+        document.addEventListener('visibilitychange', markRead);
+
+        return () => {
+            clearTimeout(timeout);
+            document.removeEventListener('visibilitychange', markRead);
+        };
+    }, [docPath, userId, latestIncoming, lastReadWritten]);
+
+    return {
+        partnerTyping,
+        // Own messages sent at or before this time have been seen by the partner
+        partnerLastRead,
+        notifyTyping,
+        stopTyping
+    };
+}
@@ -0,0 +1,21 @@
+import { useEffect } from 'react';
+import { sendHeartbeat } from '../utils/api';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Tells the server this tab is still around while `active` is true. The sweeper worker evicts
+// queue entries and ends sessions that stop heartbeating.
+export function useHeartbeat(active: boolean) {
+    useEffect(() => {
+        if (!active) return;
+
+        const beat = () => {
+            sendHeartbeat().catch(error => console.error('Heartbeat failed:', error));
+        };
+
+        const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+        beat();
+
+        return () => clearInterval(interval);
+    }, [active]);
+}
@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    collection,
+    DocumentData,
+    getDocs,
+    limit,
+    onSnapshot,
+    orderBy,
+    query,
+    QueryDocumentSnapshot,
+    startAfter,
+    startAt
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+
+const PAGE_SIZE = 50;
+
+export interface ChatMessage {
+    id: string;
+    text: string;
+    senderId: string;
+    timestamp: Date;
+    // Contact details were replaced with a placeholder until both people agree to share them
+    masked: boolean;
+}
+
+function toChatMessage(doc: QueryDocumentSnapshot<DocumentData>): ChatMessage {
+    // Our own messages show up before the server has set their timestamp
+    const data = doc.data({ serverTimestamps: 'estimate' });
+    return {
+        id: doc.id,
+        text: data.text,
+        senderId: data.senderId,
+        timestamp: data.timestamp.toDate(),
+        masked: !!data.masked
+    };
+}
+
+// Messages stored under `${parentPath}/messages` (a session or a connection), oldest first.
+// The newest page and everything after it is live, earlier pages are only fetched when loadOlder is called.
+export function useMessages(parentPath?: string) {
+    const [liveMessages, setLiveMessages] = useState<ChatMessage[]>([]);
+    const [olderMessages, setOlderMessages] = useState<ChatMessage[]>([]);
+    const [cursor, setCursor] = useState<QueryDocumentSnapshot<DocumentData> | null>(null);
+    const [hasMore, setHasMore] = useState(false);
+    const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+
+    useEffect(() => {
+        if (!parentPath) return;
+
+        const messagesRef = collection(db, parentPath, 'messages');
+        let unsubscribe = () => {};
+        let cancelled = false;
+
+        setLiveMessages([]);
+        setOlderMessages([]);
+
+        // Anchor the live listener at the oldest message of the first page, so new messages never
+        // push earlier ones out of the window
+        getDocs(query(messagesRef, orderBy('timestamp', 'desc'), limit(PAGE_SIZE)))
+            .then((firstPage) => {
+                if (cancelled) return;
+
+                const anchor = firstPage.docs[firstPage.docs.length - 1];
+                setCursor(anchor ?? null);
+                setHasMore(firstPage.size === PAGE_SIZE);
+
+                const liveQuery = anchor
+                    ? query(messagesRef, orderBy('timestamp'), startAt(anchor))
+                    : query(messagesRef, orderBy('timestamp'));
+                unsubscribe = onSnapshot(liveQuery, (snapshot) => {
+                    setLiveMessages(snapshot.docs.map(toChatMessage));
+                });
+            })
+            .catch((error) => console.error('Failed to load messages:', error));
+
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [parentPath]);
+
+    const loadOlder = useCallback(async () => {
+        if (!parentPath || !cursor || isLoadingOlder) return;
+
+        setIsLoadingOlder(true);
+        try {
+            const page = await getDocs(query(
+                collection(db, parentPath, 'messages'),
+                orderBy('timestamp', 'desc'),
+                startAfter(cursor),
+                limit(PAGE_SIZE)
+            ));
+            setOlderMessages(prev => [...page.docs.map(toChatMessage).reverse(), ...prev]);
+            setCursor(page.docs[page.docs.length - 1] ?? cursor);
+            setHasMore(page.size === PAGE_SIZE);
+        } catch (error) {
+            console.error('Failed to load older messages:', error);
+        } finally {
+            setIsLoadingOlder(false);
+        }
+    }, [parentPath, cursor, isLoadingOlder]);
+
+    return {
+        messages: [...olderMessages, ...liveMessages],
+        hasMore,
+        isLoadingOlder,
+        loadOlder
+    };
+}
@@ -0,0 +1,50 @@
+import { db } from '../config/firebase-admin';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { InvalidTransitionError, transitionSession } from './sessionLifecycle';
+
+export interface ActiveBan {
+    permanent: boolean;
+    reason: string;
+    until: Date | null;
+}
+
+// Bans live in bans/{uid}. A suspension is a ban with an `until` timestamp, after which it no longer applies.
+export async function getActiveBan(uid: string): Promise<ActiveBan | null> {
+    const banDoc = await db.collection('bans').doc(uid).get();
+    const banData = banDoc.data();
+    if (!banData) return null;
+
+    const until: Date | null = banData.until ? banData.until.toDate() : null;
+    if (until && until.getTime() <= Date.now()) {
+        return null;
+    }
+
+    return {
+        permanent: !until,
+        reason: banData.reason || '',
+        until
+    };
+}
+
+// Stores the ban and pulls the user out of matchmaking and any call they are in right now
+export async function banUser(uid: string, options: { until: Date | null, reason: string, bannedBy: string }) {
+    const batch = db.batch();
+    batch.set(db.collection('bans').doc(uid), {
+        reason: options.reason,
+        until: options.until ? Timestamp.fromDate(options.until) : null,
+        bannedBy: options.bannedBy,
+        createdAt: FieldValue.serverTimestamp()
+    });
+    batch.delete(db.collection('matchmaking_queue').doc(uid));
+    await batch.commit();
+
+    const userDoc = await db.collection('users').doc(uid).get();
+    const activeSession = userDoc.data()?.activeSession;
+    if (activeSession) {
+        try {
+            await transitionSession(activeSession, 'ended', { endedBy: options.bannedBy });
+        } catch (error) {
+            if (!(error instanceof InvalidTransitionError)) throw error;
+        }
+    }
+}
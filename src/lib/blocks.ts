@@ -0,0 +1,26 @@
+import { db } from '../config/firebase-admin';
+import { Transaction } from 'firebase-admin/firestore';
+import { chunk, pairKey } from './matchHistory';
+
+// Blocks live in users/{blockerId}/blocked/{blockedId} so Firestore rules can check them with exists()
+export function blockRef(blockerId: string, blockedId: string) {
+    return db.collection('users').doc(blockerId).collection('blocked').doc(blockedId);
+}
+
+// Pairs among the given users where either side has blocked the other.
+// Needs the collection group index on blocked.blockerId from firestore.indexes.json.
+export async function getBlockedPairs(transaction: Transaction, userIds: string[]) {
+    const blocked = new Set<string>();
+
+    for (const ids of chunk(userIds)) {
+        const snapshot = await transaction.get(
+            db.collectionGroup('blocked').where('blockerId', 'in', ids)
+        );
+        snapshot.docs.forEach(doc => {
+            const data = doc.data();
+            blocked.add(pairKey(data.blockerId, data.blockedId));
+        });
+    }
+
+    return blocked;
+}
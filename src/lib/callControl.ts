@@ -0,0 +1,32 @@
+// Control protocol on the data connection next to a video call. Track mute events don't fire when the
+// other side only disables a track, so each side says what it is doing instead. Every message carries the
+// full state, so a lost or late message is fixed by the next one and a new connection needs one message.
+
+export interface MediaState {
+    muted: boolean;
+    cameraOff: boolean;
+    // Stepped away from the call for a moment, audio and video are paused
+    away: boolean;
+}
+
+export type ControlMessage = { type: 'media-state'; state: MediaState };
+
+export const INITIAL_MEDIA_STATE: MediaState = {
+    muted: false,
+    cameraOff: false,
+    away: false
+};
+
+export function mediaStateMessage(state: MediaState): ControlMessage {
+    return { type: 'media-state', state };
+}
+
+// Anything can arrive on the channel, only take well-formed messages
+export function isControlMessage(data: unknown): data is ControlMessage {
+    if (typeof data !== 'object' || data === null) return false;
+    const message = data as Partial<ControlMessage>;
+    return message.type === 'media-state' &&
+        typeof message.state?.muted === 'boolean' &&
+        typeof message.state?.cameraOff === 'boolean' &&
+        typeof message.state?.away === 'boolean';
+}
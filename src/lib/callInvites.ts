@@ -0,0 +1,39 @@
+import { db } from '../config/firebase-admin';
+import { DocumentData } from 'firebase-admin/firestore';
+import { chunk } from './matchHistory';
+
+export type CallInviteStatus = 'pending' | 'accepted' | 'declined' | 'cancelled' | 'expired';
+
+// An unanswered invite lapses after this long
+export const CALL_INVITE_TTL_MS = 2 * 60 * 1000;
+
+// Firestore rejects batches with more writes than this
+const MAX_BATCH_WRITES = 500;
+
+// One invite per connection at a time, so the invite id is the connection id
+export function callInviteRef(connectionId: string) {
+    return db.collection('call_invites').doc(connectionId);
+}
+
+export function isInviteOpen(inviteData: DocumentData | undefined, now = Date.now()) {
+    return inviteData?.status === 'pending' && inviteData.expiresAt.toMillis() > now;
+}
+
+// Marks lapsed pending invites as expired, so both sides see the invite end
+export async function expireCallInvites() {
+    const pendingSnapshot = await db.collection('call_invites')
+        .where('status', '==', 'pending')
+        .get();
+
+    const now = Date.now();
+    const expired = pendingSnapshot.docs.filter(doc => !isInviteOpen(doc.data(), now));
+    if (expired.length === 0) return 0;
+
+    for (const docs of chunk(expired, MAX_BATCH_WRITES)) {
+        const batch = db.batch();
+        // Fails the batch if an invite was answered since we read it, the next sweep tries the rest again
+        docs.forEach(doc => batch.update(doc.ref, { status: 'expired' }, { lastUpdateTime: doc.updateTime }));
+        await batch.commit();
+    }
+    return expired.length;
+}
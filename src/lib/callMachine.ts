@@ -0,0 +1,66 @@
+// idle → connecting → connected ⇄ reconnecting → ended. A call can be ended from any state.
+export type CallState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'ended';
+
+const ALLOWED_TRANSITIONS: Record<CallState, CallState[]> = {
+    // Straight to reconnecting when we rejoin a call after a refresh
+    idle: ['connecting', 'reconnecting', 'ended'],
+    connecting: ['connected', 'reconnecting', 'ended'],
+    connected: ['connecting', 'reconnecting', 'ended'],
+    reconnecting: ['connecting', 'connected', 'ended'],
+    // Only a new call placed by hand (call-test) leaves the ended state, a session call ends for good
+    ended: ['connecting']
+};
+
+// Events are named after the state they move to, 'status' and 'error' only update the text shown
+export type CallEvent =
+    | { type: 'connecting'; detail?: string }
+    | { type: 'connected'; detail?: string }
+    | { type: 'reconnecting'; detail?: string }
+    | { type: 'ended'; detail?: string }
+    | { type: 'status'; detail: string }
+    | { type: 'error'; error: string };
+
+export interface CallStatus {
+    state: CallState;
+    detail: string;
+    error: string | null;
+}
+
+const DEFAULT_DETAILS: Record<CallState, string> = {
+    idle: 'Initializing...',
+    connecting: 'Connecting to peer...',
+    connected: 'Connected',
+    reconnecting: 'Reconnecting...',
+    ended: 'Call ended'
+};
+
+export const INITIAL_CALL_STATUS: CallStatus = {
+    state: 'idle',
+    detail: DEFAULT_DETAILS.idle,
+    error: null
+};
+
+export function canTransition(from: CallState, to: CallState) {
+    return ALLOWED_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function callReducer(status: CallStatus, event: CallEvent): CallStatus {
+    switch (event.type) {
+        case 'status':
+            return { ...status, detail: event.detail };
+        case 'error':
+            return { ...status, error: event.error };
+        default:
+            // Repeating the current state only updates its text
+            if (event.type !== status.state && !canTransition(status.state, event.type)) {
+                console.warn(`Ignoring call event '${event.type}' in state '${status.state}'`);
+                return status;
+            }
+            return {
+                state: event.type,
+                detail: event.detail ?? DEFAULT_DETAILS[event.type],
+                // A working connection clears whatever went wrong on the way
+                error: event.type === 'connected' ? null : status.error
+            };
+    }
+}
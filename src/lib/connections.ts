@@ -0,0 +1,28 @@
+import { db } from '../config/firebase-admin';
+import { FieldValue, Transaction } from 'firebase-admin/firestore';
+import { pairKey } from './matchHistory';
+
+export type Decision = 'like' | 'pass';
+
+export function isDecision(value: unknown): value is Decision {
+    return value === 'like' || value === 'pass';
+}
+
+// Like or pass of one participant, hidden from the partner so only a mutual like is ever revealed
+export function decisionRef(sessionId: string, userId: string) {
+    return db.collection('sessions').doc(sessionId).collection('decisions').doc(userId);
+}
+
+// One document per mutually liked pair, kept independently of the session it came from
+export function connectionRef(a: string, b: string) {
+    return db.collection('connections').doc(pairKey(a, b));
+}
+
+export function createConnection(transaction: Transaction, participants: string[], sessionId: string) {
+    const [a, b] = participants;
+    transaction.set(connectionRef(a, b), {
+        participants: [a, b].sort(),
+        sessionId,
+        createdAt: FieldValue.serverTimestamp()
+    });
+}
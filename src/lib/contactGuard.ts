@@ -0,0 +1,28 @@
+// Contact details are held back until both people press "Share contacts" in the chat phase.
+// These patterns err on the side of hiding too much, a masked false positive is cheap.
+const CONTACT_PATTERNS: RegExp[] = [
+    // Email addresses
+    /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi,
+    // Links, with or without a scheme
+    /\b(?:https?:\/\/|www\.)\S+/gi,
+    /\b[a-z0-9-]+\.(?:com|net|org|io|me|co|app|gg|ly|link|xyz|in|to)\b(?:\/\S*)?/gi,
+    // Phone numbers: 7 or more digits, allowing spaces, dots, dashes and brackets between them
+    /\+?\d(?:[\s().-]*\d){6,}/g,
+    // Social handles, either "@name" or "insta: name"
+    /\B@[a-z0-9_.]{2,}/gi,
+    /\b(?:insta(?:gram)?|ig|snap(?:chat)?|sc|telegram|tg|whats ?app|wa|discord|twitter|tiktok)\b\s*(?:[:-]\s*@?|@)[a-z0-9_.]{3,}/gi
+];
+
+export const CONTACT_PLACEHOLDER = '[contact hidden]';
+
+export function containsContactInfo(text: string) {
+    return CONTACT_PATTERNS.some(pattern => {
+        pattern.lastIndex = 0;
+        return pattern.test(text);
+    });
+}
+
+// Replaces every piece of contact info in the text with a placeholder
+export function maskContactInfo(text: string) {
+    return CONTACT_PATTERNS.reduce((masked, pattern) => masked.replace(pattern, CONTACT_PLACEHOLDER), text);
+}
@@ -0,0 +1,21 @@
+// Shared between the post-call feedback page and /api/feedback
+export const FEEDBACK_TAGS = [
+    { value: 'great_conversation', label: 'Great conversation' },
+    { value: 'bad_connection', label: 'Bad connection' },
+    { value: 'no_video', label: 'Couldn\'t see them' },
+    { value: 'no_audio', label: 'Couldn\'t hear them' },
+    { value: 'rude', label: 'Rude' },
+    { value: 'too_short', label: 'Too short' },
+] as const;
+
+export type FeedbackTag = typeof FEEDBACK_TAGS[number]['value'];
+
+export const MAX_FEEDBACK_COMMENT_LENGTH = 500;
+
+export function isFeedbackTag(value: unknown): value is FeedbackTag {
+    return FEEDBACK_TAGS.some(tag => tag.value === value);
+}
+
+export function getFeedbackTagLabel(tag: string) {
+    return FEEDBACK_TAGS.find(option => option.value === tag)?.label || tag;
+}
@@ -0,0 +1,39 @@
+import { createHmac } from 'crypto';
+
+export interface IceServer {
+    urls: string[];
+    username?: string;
+    credential?: string;
+}
+
+const DEFAULT_STUN_URLS = ['stun:stun.l.google.com:19302', 'stun:stun.relay.metered.ca:80'];
+
+// How long issued TURN credentials stay valid, long enough to cover a whole call
+export const TURN_CREDENTIAL_TTL_SECONDS = Number(process.env.TURN_CREDENTIAL_TTL_SECONDS) || 3600;
+
+function parseUrls(value: string | undefined) {
+    return (value || '').split(',').map(url => url.trim()).filter(Boolean);
+}
+
+// coturn REST API credentials (use-auth-secret): the username carries the expiry time and the
+// password is an HMAC of it with the secret shared with the TURN server, so nothing is stored
+export function createTurnCredentials(userId: string, secret: string, now = Date.now()) {
+    const expiresAt = Math.floor(now / 1000) + TURN_CREDENTIAL_TTL_SECONDS;
+    const username = `${expiresAt}:${userId}`;
+    const credential = createHmac('sha1', secret).update(username).digest('base64');
+    return { username, credential };
+}
+
+// STUN servers plus, when configured, TURN servers with credentials for this user
+export function getIceServers(userId: string): IceServer[] {
+    const stunUrls = process.env.STUN_URLS ? parseUrls(process.env.STUN_URLS) : DEFAULT_STUN_URLS;
+    const iceServers: IceServer[] = stunUrls.length > 0 ? [{ urls: stunUrls }] : [];
+
+    const turnUrls = parseUrls(process.env.TURN_URLS);
+    const turnSecret = process.env.TURN_SECRET;
+    if (turnUrls.length > 0 && turnSecret) {
+        iceServers.push({ urls: turnUrls, ...createTurnCredentials(userId, turnSecret) });
+    }
+
+    return iceServers;
+}
@@ -0,0 +1,103 @@
+import { db } from '../config/firebase-admin';
+import { DocumentData, FieldValue, Timestamp, Transaction } from 'firebase-admin/firestore';
+
+// How long two people are kept apart after meeting, and what counts as skipping a call early
+const REMATCH_WINDOW_MS = (Number(process.env.REMATCH_WINDOW_HOURS) || 24) * 60 * 60 * 1000;
+const EARLY_SKIP_MS = (Number(process.env.EARLY_SKIP_SECONDS) || 60) * 1000;
+
+// Firestore 'in' accepts at most 30 values
+const QUERY_CHUNK_SIZE = 30;
+
+// Order-independent key for a pair of users, also used as the match_history document id
+export function pairKey(a: string, b: string) {
+    return [a, b].sort().join('_');
+}
+
+export function chunk<T>(items: T[], size = QUERY_CHUNK_SIZE) {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
+
+// Partners kept per user, the oldest fall off so the list stays small
+const MAX_EXCLUDED_PARTNERS = 200;
+
+// Server-only, one document per user, rewritten every time they join the queue
+function exclusionsRef(userId: string) {
+    return db.collection('queue_exclusions').doc(userId);
+}
+
+// Saves who this user must not be matched with yet: anyone met within the window, and anyone either side
+// skipped early. Done at join time, so the matcher never reads match history inside its transaction.
+export async function saveExcludedPartners(userId: string) {
+    const cutoff = Timestamp.fromMillis(Date.now() - REMATCH_WINDOW_MS);
+    const history = db.collection('match_history').where('participants', 'array-contains', userId);
+
+    const [recent, skipped] = await Promise.all([
+        history.where('lastMatchedAt', '>=', cutoff)
+            .orderBy('lastMatchedAt', 'desc')
+            .limit(MAX_EXCLUDED_PARTNERS)
+            .get(),
+        history.where('skippedEarly', '==', true)
+            .orderBy('lastMatchedAt', 'desc')
+            .limit(MAX_EXCLUDED_PARTNERS)
+            .get()
+    ]);
+
+    const partners = new Set<string>();
+    [...recent.docs, ...skipped.docs].forEach(doc => {
+        (doc.data().participants as string[])
+            .filter(id => id !== userId)
+            .forEach(id => partners.add(id));
+    });
+
+    await exclusionsRef(userId).set({
+        partners: Array.from(partners).slice(0, MAX_EXCLUDED_PARTNERS),
+        updatedAt: FieldValue.serverTimestamp()
+    });
+}
+
+// Pairs among the given users that must not be matched again yet, one small read per queued user
+export async function getRecentPairs(transaction: Transaction, userIds: string[]) {
+    const excluded = new Set<string>();
+    if (userIds.length === 0) return excluded;
+
+    const snapshots = await transaction.getAll(...userIds.map(exclusionsRef));
+    snapshots.forEach((snapshot, index) => {
+        const partners: string[] = snapshot.data()?.partners || [];
+        partners.forEach(partnerId => excluded.add(pairKey(userIds[index], partnerId)));
+    });
+
+    return excluded;
+}
+
+export function recordMatch(transaction: Transaction, participants: string[], sessionId: string) {
+    const [a, b] = participants;
+    transaction.set(db.collection('match_history').doc(pairKey(a, b)), {
+        participants: [a, b].sort(),
+        lastMatchedAt: FieldValue.serverTimestamp(),
+        lastSessionId: sessionId,
+        matchCount: FieldValue.increment(1)
+    }, { merge: true });
+}
+
+// True when a session that was still in its video phase is ended shortly after it started
+export function isEarlyEnd(sessionData: DocumentData) {
+    const startTime = sessionData.startTime?.toMillis();
+    return sessionData.status === 'video' && !!startTime && Date.now() - startTime <= EARLY_SKIP_MS;
+}
+
+// Flags the pair when a video call is ended shortly after it started
+export async function recordSessionEnd(sessionData: DocumentData, endedBy: string) {
+    if (!isEarlyEnd(sessionData)) {
+        return;
+    }
+
+    const [a, b] = sessionData.participants;
+    await db.collection('match_history').doc(pairKey(a, b)).set({
+        skippedEarly: true,
+        skippedBy: endedBy
+    }, { merge: true });
+}
@@ -0,0 +1,135 @@
+import { db } from '../config/firebase-admin';
+import { DocumentData } from 'firebase-admin/firestore';
+import { getRecentPairs, pairKey, recordMatch } from './matchHistory';
+import { getBlockedPairs } from './blocks';
+import { buildSession } from './sessionLifecycle';
+import { isStale, QUEUE_HEARTBEAT_TIMEOUT_MS } from './presence';
+
+export type Gender = 'male' | 'female';
+export type PartnerPreference = Gender | 'any';
+
+export interface QueueEntry {
+    id: string;
+    joinedAt: any;
+    gender: Gender | null;
+    lookingFor: PartnerPreference;
+}
+
+export interface MatchedPair {
+    sessionId: string;
+    participants: string[];
+}
+
+export type MatchmakingResult =
+    | { status: 'success'; matches: MatchedPair[] }
+    | { status: 'not_enough_users' }
+    | { status: 'no_compatible_pairs' };
+
+function accepts(seeker: QueueEntry, candidate: QueueEntry) {
+    return seeker.lookingFor === 'any' || seeker.lookingFor === candidate.gender;
+}
+
+// Whether the matcher would consider this queue entry right now. Tabs that stopped heartbeating are left
+// for the sweeper, and serial skippers are held back until their eligibleAt.
+export function isMatchable(entryData: DocumentData, now = Date.now()) {
+    return entryData.status === 'waiting' &&
+        !isStale(entryData.lastHeartbeat || entryData.joinedAt, QUEUE_HEARTBEAT_TIMEOUT_MS, now) &&
+        (entryData.eligibleAt?.toMillis() ?? 0) <= now;
+}
+
+// Both sides have to be what the other one is looking for
+export function areCompatible(a: QueueEntry, b: QueueEntry) {
+    return accepts(a, b) && accepts(b, a);
+}
+
+// Walks the queue oldest first and gives each user the longest-waiting compatible partner,
+// skipping any pair listed in excludedPairs (keyed by pairKey)
+export function pairQueue(waitingUsers: QueueEntry[], excludedPairs: Set<string> = new Set()) {
+    const pairs: Array<[QueueEntry, QueueEntry]> = [];
+    const taken = new Set<string>();
+
+    waitingUsers.forEach((user, index) => {
+        if (taken.has(user.id)) return;
+
+        const partner = waitingUsers.slice(index + 1)
+            .find(candidate =>
+                !taken.has(candidate.id) &&
+                !excludedPairs.has(pairKey(user.id, candidate.id)) &&
+                areCompatible(user, candidate)
+            );
+        if (!partner) return;
+
+        taken.add(user.id);
+        taken.add(partner.id);
+        pairs.push([user, partner]);
+    });
+
+    return pairs;
+}
+
+// Pairs waiting users in one transaction, so concurrent runs can never book the same user twice
+export async function runMatchmaking(): Promise<MatchmakingResult> {
+    return db.runTransaction(async (transaction) => {
+        console.log('Starting match transaction');
+
+        // Query the matchmaking queue inside the transaction to get the latest waiting users
+        const queueQuery = db.collection('matchmaking_queue').orderBy('joinedAt');
+        const querySnapshot = await transaction.get(queueQuery);
+
+        let waitingUsers: QueueEntry[] = [];
+        const now = Date.now();
+        querySnapshot.docs.forEach(doc => {
+            const data = doc.data();
+            if (isMatchable(data, now)) {
+                waitingUsers.push({
+                    id: doc.id,
+                    joinedAt: data.joinedAt,
+                    gender: data.gender || null,
+                    lookingFor: data.lookingFor || 'any'
+                });
+            }
+        });
+
+        // Check if there are at least 2 users ready to match
+        if (waitingUsers.length < 2) {
+            return { status: 'not_enough_users' };
+        }
+
+        // Reads have to happen before any writes in a transaction
+        const waitingIds = waitingUsers.map(u => u.id);
+        const excludedPairs = await getRecentPairs(transaction, waitingIds);
+        const blockedPairs = await getBlockedPairs(transaction, waitingIds);
+        blockedPairs.forEach(key => excludedPairs.add(key));
+
+        const pairs = pairQueue(waitingUsers, excludedPairs);
+        if (pairs.length === 0) {
+            return { status: 'no_compatible_pairs' };
+        }
+
+        const matchesResults: MatchedPair[] = [];
+        for (const matchedPair of pairs) {
+            // Create a new session for the matched pair
+            const sessionRef = db.collection('sessions').doc();
+            transaction.set(sessionRef, buildSession(matchedPair.map(u => u.id), 'queue'));
+
+            // Update each user's status and remove them from the matchmaking queue
+            for (const user of matchedPair) {
+                const userRef = db.collection('users').doc(user.id);
+                transaction.update(userRef, { activeSession: sessionRef.id });
+                transaction.delete(db.collection('matchmaking_queue').doc(user.id));
+            }
+
+            recordMatch(transaction, matchedPair.map(u => u.id), sessionRef.id);
+
+            matchesResults.push({
+                sessionId: sessionRef.id,
+                participants: matchedPair.map(u => u.id)
+            });
+        }
+
+        return {
+            status: 'success',
+            matches: matchesResults
+        };
+    });
+}
@@ -0,0 +1,23 @@
+// Limits for chat messages sent through /api/sessions/messages
+export const MAX_MESSAGE_LENGTH = Number(process.env.CHAT_MAX_MESSAGE_LENGTH) || 500;
+export const MESSAGE_RATE_LIMIT = Number(process.env.CHAT_RATE_LIMIT_MESSAGES) || 10;
+export const MESSAGE_RATE_WINDOW_MS = (Number(process.env.CHAT_RATE_LIMIT_WINDOW_SECONDS) || 10) * 1000;
+
+// Comma separated list of words that get starred out, matched as whole words regardless of case
+const BLOCKED_WORDS = (process.env.CHAT_BLOCKED_WORDS || '')
+    .split(',')
+    .map(word => word.trim().toLowerCase())
+    .filter(Boolean);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const blockedWordsPattern = BLOCKED_WORDS.length > 0
+    ? new RegExp(`\\b(?:${BLOCKED_WORDS.map(escapeRegExp).join('|')})\\b`, 'gi')
+    : null;
+
+export function filterBlockedWords(text: string) {
+    if (!blockedWordsPattern) return { text, filtered: false };
+
+    const filtered = text.replace(blockedWordsPattern, word => '*'.repeat(word.length));
+    return { text: filtered, filtered: filtered !== text };
+}
@@ -0,0 +1,29 @@
+import { db } from '../config/firebase-admin';
+
+// The latest messages of a session, oldest first
+export async function getRecentMessages(sessionId: string, count: number) {
+    const snapshot = await db.collection('sessions').doc(sessionId).collection('messages')
+        .orderBy('timestamp', 'desc')
+        .limit(count)
+        .get();
+
+    return snapshot.docs.reverse().map(doc => ({
+        id: doc.id,
+        ...doc.data()
+    }));
+}
+
+// Adds heldText, the unmasked original from held_messages, to messages the partner only saw masked.
+// For moderators only, never send the result to a participant.
+export async function withHeldOriginals<T extends { id: string, masked?: boolean }>(sessionId: string, messages: T[]) {
+    const masked = messages.filter(msg => msg.masked);
+    if (masked.length === 0) return messages;
+
+    const heldRef = db.collection('sessions').doc(sessionId).collection('held_messages');
+    const heldDocs = await db.getAll(...masked.map(msg => heldRef.doc(msg.id)));
+    const heldTexts = new Map(heldDocs
+        .filter(doc => doc.exists)
+        .map(doc => [doc.id, doc.data()?.text as string]));
+
+    return messages.map(msg => heldTexts.has(msg.id) ? { ...msg, heldText: heldTexts.get(msg.id) } : msg);
+}
@@ -0,0 +1,11 @@
+import { Timestamp } from 'firebase-admin/firestore';
+
+// Clients heartbeat every 15s, but background tabs can be throttled to about once a minute
+export const QUEUE_HEARTBEAT_TIMEOUT_MS = (Number(process.env.QUEUE_HEARTBEAT_TIMEOUT_SECONDS) || 150) * 1000;
+export const SESSION_HEARTBEAT_TIMEOUT_MS = (Number(process.env.SESSION_HEARTBEAT_TIMEOUT_SECONDS) || 120) * 1000;
+// Two missed heartbeats, used to show whether a call partner is still around
+export const PARTNER_ONLINE_TIMEOUT_MS = 45 * 1000;
+
+export function isStale(lastSeen: Timestamp | undefined | null, timeoutMs: number, now = Date.now()) {
+    return !lastSeen || now - lastSeen.toMillis() > timeoutMs;
+}
@@ -0,0 +1,34 @@
+import { db } from '../config/firebase-admin';
+import { Timestamp } from 'firebase-admin/firestore';
+import { isMatchable } from './matchmaking';
+
+// How far back to look when measuring how fast the matcher is emptying the queue
+const THROUGHPUT_WINDOW_MS = (Number(process.env.QUEUE_ETA_WINDOW_MINUTES) || 15) * 60 * 1000;
+
+// 1-based rank of a queue entry among the ones ahead of it that the matcher would actually consider
+export async function getQueuePosition(joinedAt: Timestamp) {
+    const aheadSnapshot = await db.collection('matchmaking_queue')
+        .where('joinedAt', '<', joinedAt)
+        .select('status', 'joinedAt', 'lastHeartbeat', 'eligibleAt')
+        .get();
+    const now = Date.now();
+    return aheadSnapshot.docs.filter(doc => isMatchable(doc.data(), now)).length + 1;
+}
+
+// Users taken off the queue per second recently, every match takes two. Call invites don't go through the queue.
+async function getMatchThroughput() {
+    const since = Timestamp.fromMillis(Date.now() - THROUGHPUT_WINDOW_MS);
+    const sessionsSnapshot = await db.collection('sessions')
+        .where('origin', '==', 'queue')
+        .where('startTime', '>=', since)
+        .count()
+        .get();
+    return (sessionsSnapshot.data().count * 2) / (THROUGHPUT_WINDOW_MS / 1000);
+}
+
+// Seconds until the user at this position is likely matched, or null when nobody was matched recently
+export async function estimateWaitSeconds(queuePosition: number) {
+    const throughput = await getMatchThroughput();
+    if (throughput === 0) return null;
+    return Math.ceil(queuePosition / throughput);
+}
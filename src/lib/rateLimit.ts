@@ -0,0 +1,25 @@
+import { db } from '../config/firebase-admin';
+import { Timestamp } from 'firebase-admin/firestore';
+
+// Fixed-window counter kept in Firestore, so the limit holds across serverless instances.
+// Returns false once `limit` calls were made under `key` within the current window.
+export async function consumeRateLimit(key: string, limit: number, windowMs: number) {
+    const ref = db.collection('rate_limits').doc(key);
+
+    return db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(ref);
+        const data = doc.data();
+        const now = Date.now();
+
+        if (!data || now - data.windowStart.toMillis() >= windowMs) {
+            transaction.set(ref, { windowStart: Timestamp.fromMillis(now), count: 1 });
+            return true;
+        }
+        if (data.count >= limit) {
+            return false;
+        }
+
+        transaction.update(ref, { count: data.count + 1 });
+        return true;
+    });
+}
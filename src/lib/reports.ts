@@ -0,0 +1,21 @@
+// Shared between the report modal and /api/reports
+export const REPORT_REASONS = [
+    { value: 'nudity', label: 'Nudity or sexual content' },
+    { value: 'harassment', label: 'Harassment or threats' },
+    { value: 'hate', label: 'Hate speech' },
+    { value: 'underage', label: 'Appears to be under 18' },
+    { value: 'spam', label: 'Spam or scam' },
+    { value: 'other', label: 'Something else' },
+] as const;
+
+export type ReportReason = typeof REPORT_REASONS[number]['value'];
+
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+export function isReportReason(value: unknown): value is ReportReason {
+    return REPORT_REASONS.some(reason => reason.value === value);
+}
+
+export function getReportReasonLabel(reason: string) {
+    return REPORT_REASONS.find(option => option.value === reason)?.label || reason;
+}
@@ -0,0 +1,161 @@
+import { db } from '../config/firebase-admin';
+import { DocumentData, DocumentReference, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { recordSessionEnd } from './matchHistory';
+import { recordVideoCallOutcomes } from './skipStats';
+
+// video → chat → cooldown → ended. A session can also be ended early from any live phase.
+export type SessionStatus = 'video' | 'chat' | 'cooldown' | 'ended';
+
+export const LIVE_SESSION_STATUSES: SessionStatus[] = ['video', 'chat', 'cooldown'];
+
+// Paired by the matcher, or started from a call invite between two connections
+export type SessionOrigin = 'queue' | 'invite';
+
+const ALLOWED_TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+    video: ['chat', 'ended'],
+    chat: ['cooldown', 'ended'],
+    cooldown: ['ended'],
+    ended: []
+};
+
+export const VIDEO_PHASE_MS = 15 * 60 * 1000;
+export const CHAT_PHASE_MS = 5 * 60 * 1000;
+// Read-only grace period after the chat closes, so both sides see the end instead of a vanished session
+export const COOLDOWN_PHASE_MS = 30 * 1000;
+
+export class InvalidTransitionError extends Error {
+    constructor(from: SessionStatus, to: SessionStatus) {
+        super(`Cannot move session from '${from}' to '${to}'`);
+        this.name = 'InvalidTransitionError';
+    }
+}
+
+export function canTransition(from: SessionStatus, to: SessionStatus) {
+    return ALLOWED_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+// Initial document for a new session between two users
+export function buildSession(participants: string[], origin: SessionOrigin) {
+    const now = Date.now();
+    return {
+        participants,
+        origin,
+        startTime: FieldValue.serverTimestamp(),
+        videoEndTime: Timestamp.fromMillis(now + VIDEO_PHASE_MS),
+        chatEndTime: Timestamp.fromMillis(now + VIDEO_PHASE_MS + CHAT_PHASE_MS),
+        status: 'video' as SessionStatus,
+        peerIds: {},
+        // Heartbeats per participant, written by /api/matchmaking/heartbeat
+        lastSeen: Object.fromEntries(participants.map(id => [id, Timestamp.fromMillis(now)])),
+        // Who has answered the like/pass prompt, the answers themselves stay in the server-only
+        // decisions subcollection. connectionId is set once both liked.
+        decided: {}
+    };
+}
+
+// The phase a session should be in by now according to its deadlines, or null if it is on time
+export function getDueTransition(sessionData: DocumentData, now = Date.now()): SessionStatus | null {
+    switch (sessionData.status as SessionStatus) {
+        case 'video':
+            return now >= sessionData.videoEndTime.toMillis() ? 'chat' : null;
+        case 'chat':
+            return now >= sessionData.chatEndTime.toMillis() ? 'cooldown' : null;
+        case 'cooldown':
+            return now >= (sessionData.cooldownEnds?.toMillis() ?? 0) ? 'ended' : null;
+        default:
+            return null;
+    }
+}
+
+// Offers and ICE candidates from Firestore signaling carry both users' IP addresses, so they go
+// when the session ends. The sweeper retries sessions still flagged with signalingCleared: false.
+export async function clearSignaling(sessionId: string) {
+    const sessionRef = db.collection('sessions').doc(sessionId);
+    await db.recursiveDelete(sessionRef.collection('signaling'));
+    await sessionRef.update({ signalingCleared: true });
+}
+
+// Moves a session to the next phase inside a transaction. Ending a session also frees both participants,
+// and leaving the video phase, however it happens, records the call for match history and skip rates.
+export async function transitionSession(
+    sessionId: string,
+    to: SessionStatus,
+    extra: Record<string, any> = {}
+) {
+    const sessionRef = db.collection('sessions').doc(sessionId);
+
+    const result = await db.runTransaction(async (transaction) => {
+        const sessionDoc = await transaction.get(sessionRef);
+        const sessionData = sessionDoc.data();
+        if (!sessionData) {
+            throw new Error(`Session ${sessionId} not found`);
+        }
+
+        const from = sessionData.status as SessionStatus;
+        if (!canTransition(from, to)) {
+            throw new InvalidTransitionError(from, to);
+        }
+
+        const userRefs: DocumentReference[] = sessionData.participants.map((id: string) => db.collection('users').doc(id));
+        const userDocs = to === 'ended' ? await transaction.getAll(...userRefs) : [];
+
+        const update: Record<string, any> = { ...extra, status: to };
+        if (to === 'cooldown') {
+            update.cooldownEnds = Timestamp.fromMillis(Date.now() + COOLDOWN_PHASE_MS);
+        }
+        if (to === 'ended') {
+            update.endedAt = FieldValue.serverTimestamp();
+            update.signalingCleared = false;
+            // Only clear activeSession if the user hasn't already moved on to another session
+            userDocs.forEach(userDoc => {
+                if (userDoc.data()?.activeSession === sessionId) {
+                    transaction.update(userDoc.ref, { activeSession: null });
+                }
+            });
+        }
+        transaction.update(sessionRef, update);
+
+        return { from, to, sessionData };
+    });
+
+    if (to === 'ended') {
+        try {
+            await clearSignaling(sessionId);
+        } catch (error) {
+            console.error(`Failed to clear signaling of session ${sessionId}:`, error);
+        }
+    }
+
+    // sessionData is from before the transition, so isEarlyEnd still sees the video phase
+    if (result.from === 'video') {
+        const endedBy: string | null = to === 'ended' && result.sessionData.participants.includes(extra.endedBy)
+            ? extra.endedBy
+            : null;
+        try {
+            if (endedBy) {
+                await recordSessionEnd(result.sessionData, endedBy);
+            }
+            await recordVideoCallOutcomes(result.sessionData, endedBy);
+        } catch (error) {
+            // The session has moved on either way, the stats just miss this call
+            console.error(`Failed to record the outcome of session ${sessionId}:`, error);
+        }
+    }
+
+    return result;
+}
+
+// Applies every transition that is due for the given session, returns the last one applied
+export async function advanceSession(sessionId: string) {
+    let applied: SessionStatus | null = null;
+
+    while (true) {
+        const sessionDoc = await db.collection('sessions').doc(sessionId).get();
+        const sessionData = sessionDoc.data();
+        const next = sessionData ? getDueTransition(sessionData) : null;
+        if (!next) return applied;
+
+        await transitionSession(sessionId, next);
+        applied = next;
+    }
+}
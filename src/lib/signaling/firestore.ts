@@ -0,0 +1,374 @@
+import {
+    addDoc, collection, doc, DocumentReference, onSnapshot, query, serverTimestamp, setDoc, Unsubscribe, updateDoc, where
+} from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import {
+    CallEvents, ClientEvents, DataConnectionEvents, Emitter, SignalingCall, SignalingClient, SignalingDataConnection,
+    SignalingError, SignalingOptions
+} from './types';
+
+// Signaling through Firestore, so calls don't depend on a PeerJS server. Each call or data connection is a
+// document in sessions/{sessionId}/signaling holding the offer and answer, with ICE candidates in a
+// candidates subcollection.
+
+type LinkKind = 'media' | 'data';
+
+function toError(type: string, error: unknown): SignalingError {
+    return { type, message: error instanceof Error ? error.message : String(error) };
+}
+
+// One RTCPeerConnection negotiated through a signaling document
+abstract class FirestoreLink {
+    readonly peerConnection: RTCPeerConnection;
+    private unsubscribes: Unsubscribe[] = [];
+    // Remote candidates can arrive before the remote description, addIceCandidate would reject them
+    private pendingCandidates: RTCIceCandidateInit[] = [];
+    // For the client's own bookkeeping, next to the close event of the subclass
+    private closeListeners: Array<() => void> = [];
+    protected closed = false;
+
+    constructor(
+        private linkRef: DocumentReference,
+        readonly peer: string,
+        private localId: string,
+        rtcConfig: RTCConfiguration | undefined,
+        private offer?: RTCSessionDescriptionInit
+    ) {
+        this.peerConnection = new RTCPeerConnection(rtcConfig);
+
+        this.peerConnection.addEventListener('icecandidate', (event) => {
+            if (!event.candidate) return;
+            addDoc(collection(this.linkRef, 'candidates'), {
+                from: this.localId,
+                candidate: event.candidate.toJSON()
+            }).catch(error => this.emitError(toError('network', error)));
+        });
+
+        // Same as PeerJS, a connection that can't be recovered closes the link
+        this.peerConnection.addEventListener('iceconnectionstatechange', () => {
+            if (this.peerConnection.iceConnectionState === 'failed') {
+                this.emitError({ type: 'negotiation-failed', message: 'ICE connection failed' });
+                this.close();
+            }
+        });
+
+        this.unsubscribes.push(onSnapshot(collection(this.linkRef, 'candidates'), (snapshot) => {
+            snapshot.docChanges().forEach(change => {
+                const data = change.doc.data();
+                if (change.type !== 'added' || data.from === this.localId) return;
+                this.addRemoteCandidate(data.candidate);
+            });
+        }));
+    }
+
+    protected abstract emitError(error: SignalingError): void;
+    protected abstract emitClose(): void;
+
+    // Caller side: publishes our offer and waits for the answer
+    protected async publishOffer(kind: LinkKind) {
+        const offer = await this.peerConnection.createOffer();
+        await this.peerConnection.setLocalDescription(offer);
+        await setDoc(this.linkRef, {
+            from: this.localId,
+            to: this.peer,
+            kind,
+            offer: { type: offer.type, sdp: offer.sdp },
+            closed: false,
+            createdAt: serverTimestamp()
+        });
+
+        this.unsubscribes.push(onSnapshot(this.linkRef, (snapshot) => {
+            const data = snapshot.data();
+            if (!data) return;
+            if (data.answer && !this.peerConnection.currentRemoteDescription) {
+                this.setRemoteDescription(data.answer)
+                    .catch(error => this.emitError(toError('webrtc', error)));
+            }
+            if (data.closed) {
+                this.teardown();
+            }
+        }));
+    }
+
+    // Callee side: answers the offer we were created with
+    protected respond() {
+        if (!this.offer) return;
+        const offer = this.offer;
+
+        const answerOffer = async () => {
+            await this.setRemoteDescription(offer);
+            const answer = await this.peerConnection.createAnswer();
+            await this.peerConnection.setLocalDescription(answer);
+            await updateDoc(this.linkRef, { answer: { type: answer.type, sdp: answer.sdp } });
+        };
+        answerOffer().catch(error => this.emitError(toError('webrtc', error)));
+
+        this.unsubscribes.push(onSnapshot(this.linkRef, (snapshot) => {
+            if (snapshot.data()?.closed) {
+                this.teardown();
+            }
+        }));
+    }
+
+    onClosed(listener: () => void) {
+        this.closeListeners.push(listener);
+    }
+
+    close() {
+        if (this.closed) return;
+        // Tell the other side, then stop locally
+        updateDoc(this.linkRef, { closed: true }).catch(() => {});
+        this.teardown();
+    }
+
+    private async setRemoteDescription(description: RTCSessionDescriptionInit) {
+        await this.peerConnection.setRemoteDescription(description);
+        const candidates = this.pendingCandidates;
+        this.pendingCandidates = [];
+        await Promise.all(candidates.map(candidate => this.peerConnection.addIceCandidate(candidate)));
+    }
+
+    private addRemoteCandidate(candidate: RTCIceCandidateInit) {
+        if (!this.peerConnection.remoteDescription) {
+            this.pendingCandidates.push(candidate);
+            return;
+        }
+        this.peerConnection.addIceCandidate(candidate)
+            .catch(error => this.emitError(toError('webrtc', error)));
+    }
+
+    private teardown() {
+        if (this.closed) return;
+        this.closed = true;
+        this.unsubscribes.forEach(unsubscribe => unsubscribe());
+        this.unsubscribes = [];
+        this.peerConnection.close();
+        this.closeListeners.forEach(listener => listener());
+        this.emitClose();
+    }
+}
+
+class FirestoreCall extends FirestoreLink implements SignalingCall {
+    private events = new Emitter<CallEvents>();
+    private remoteStreamId: string | null = null;
+
+    constructor(
+        linkRef: DocumentReference,
+        peer: string,
+        localId: string,
+        rtcConfig: RTCConfiguration | undefined,
+        offer?: RTCSessionDescriptionInit
+    ) {
+        super(linkRef, peer, localId, rtcConfig, offer);
+
+        this.peerConnection.addEventListener('track', (event) => {
+            const [remoteStream] = event.streams;
+            if (!remoteStream || remoteStream.id === this.remoteStreamId) return;
+            this.remoteStreamId = remoteStream.id;
+            this.events.emit('stream', remoteStream);
+        });
+    }
+
+    async start(stream: MediaStream) {
+        stream.getTracks().forEach(track => this.peerConnection.addTrack(track, stream));
+        await this.publishOffer('media');
+    }
+
+    answer(stream: MediaStream) {
+        stream.getTracks().forEach(track => this.peerConnection.addTrack(track, stream));
+        this.respond();
+    }
+
+    on<E extends keyof CallEvents>(event: E, listener: CallEvents[E]) {
+        this.events.on(event, listener);
+    }
+
+    protected emitError(error: SignalingError) {
+        this.events.emit('error', error);
+    }
+
+    protected emitClose() {
+        this.events.emit('close');
+    }
+}
+
+class FirestoreDataConnection extends FirestoreLink implements SignalingDataConnection {
+    private events = new Emitter<DataConnectionEvents>();
+    private channel: RTCDataChannel | null = null;
+
+    constructor(
+        linkRef: DocumentReference,
+        peer: string,
+        localId: string,
+        rtcConfig: RTCConfiguration | undefined,
+        offer?: RTCSessionDescriptionInit
+    ) {
+        super(linkRef, peer, localId, rtcConfig, offer);
+
+        // The caller creates the channel, the callee gets it from the offer
+        if (offer) {
+            this.peerConnection.addEventListener('datachannel', (event) => this.attach(event.channel));
+            this.respond();
+        }
+    }
+
+    get open() {
+        return this.channel?.readyState === 'open';
+    }
+
+    async start() {
+        this.attach(this.peerConnection.createDataChannel('data', { ordered: true }));
+        await this.publishOffer('data');
+    }
+
+    send(data: unknown) {
+        if (!this.channel || this.channel.readyState !== 'open') return;
+        this.channel.send(JSON.stringify(data));
+    }
+
+    on<E extends keyof DataConnectionEvents>(event: E, listener: DataConnectionEvents[E]) {
+        this.events.on(event, listener);
+    }
+
+    protected emitError(error: SignalingError) {
+        this.events.emit('error', error);
+    }
+
+    protected emitClose() {
+        this.events.emit('close');
+    }
+
+    private attach(channel: RTCDataChannel) {
+        this.channel = channel;
+        channel.addEventListener('open', () => this.events.emit('open'));
+        channel.addEventListener('close', () => this.close());
+        channel.addEventListener('message', (event) => {
+            try {
+                this.events.emit('data', JSON.parse(event.data));
+            } catch (error) {
+                this.emitError(toError('webrtc', error));
+            }
+        });
+    }
+}
+
+export class FirestoreSignalingClient implements SignalingClient {
+    destroyed = false;
+    private events = new Emitter<ClientEvents>();
+    private links: FirestoreLink[] = [];
+    private unsubscribe: Unsubscribe | null = null;
+    private sessionId: string;
+    // Incoming links we have answered or decided to leave alone, across reconnects
+    private seenLinks = new Set<string>();
+    private hasListened = false;
+
+    constructor(readonly id: string, private options: SignalingOptions) {
+        if (!options.sessionId) {
+            throw new Error('Firestore signaling needs a session');
+        }
+        this.sessionId = options.sessionId;
+
+        // Listeners are attached right after construction, open once the first snapshot is in
+        this.listen();
+    }
+
+    call(peerId: string, stream: MediaStream) {
+        const call = this.track(new FirestoreCall(this.newLinkRef(), peerId, this.id, this.options.rtcConfig));
+        call.start(stream).catch(error => {
+            this.events.emit('error', toError('peer-unavailable', error));
+            call.close();
+        });
+        return call;
+    }
+
+    connect(peerId: string) {
+        const connection = this.track(
+            new FirestoreDataConnection(this.newLinkRef(), peerId, this.id, this.options.rtcConfig)
+        );
+        connection.start().catch(error => {
+            this.events.emit('error', toError('peer-unavailable', error));
+            connection.close();
+        });
+        return connection;
+    }
+
+    reconnect() {
+        if (this.destroyed) return;
+        this.listen();
+    }
+
+    destroy() {
+        this.destroyed = true;
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        this.links.forEach(link => link.close());
+        this.links = [];
+    }
+
+    on<E extends keyof ClientEvents>(event: E, listener: ClientEvents[E]) {
+        this.events.on(event, listener);
+    }
+
+    private newLinkRef() {
+        return doc(collection(db, 'sessions', this.sessionId, 'signaling'));
+    }
+
+    private listen() {
+        this.unsubscribe?.();
+
+        // On the first run, offers already there belong to earlier connections, only links opened from now on
+        // are ours to answer. After a reconnect the first snapshot can hold offers sent while we were away.
+        const isReconnect = this.hasListened;
+        this.hasListened = true;
+        let isInitialSnapshot = true;
+        const incoming = query(
+            collection(db, 'sessions', this.sessionId, 'signaling'),
+            where('to', '==', this.id)
+        );
+
+        this.unsubscribe = onSnapshot(incoming, (snapshot) => {
+            if (isInitialSnapshot) {
+                isInitialSnapshot = false;
+                this.events.emit('open', this.id);
+                if (!isReconnect) {
+                    snapshot.docs.forEach(linkDoc => this.seenLinks.add(linkDoc.id));
+                    return;
+                }
+            }
+
+            snapshot.docChanges().forEach(change => {
+                const data = change.doc.data();
+                if (change.type !== 'added' || this.seenLinks.has(change.doc.id)) return;
+                this.seenLinks.add(change.doc.id);
+                // Answered before we dropped out, or the caller gave up while we were away
+                if (!data.offer || data.answer || data.closed) return;
+                if (this.options.debug) {
+                    console.log(`Incoming Firestore ${data.kind || 'media'} link from:`, data.from);
+                }
+
+                const { rtcConfig } = this.options;
+                if (data.kind === 'data') {
+                    this.events.emit('connection', this.track(
+                        new FirestoreDataConnection(change.doc.ref, data.from, this.id, rtcConfig, data.offer)
+                    ));
+                } else {
+                    this.events.emit('call', this.track(
+                        new FirestoreCall(change.doc.ref, data.from, this.id, rtcConfig, data.offer)
+                    ));
+                }
+            });
+        }, (error) => {
+            this.unsubscribe = null;
+            this.events.emit('error', toError('network', error));
+            this.events.emit('disconnected');
+        });
+    }
+
+    private track<T extends FirestoreLink>(link: T) {
+        this.links.push(link);
+        link.onClosed(() => {
+            this.links = this.links.filter(other => other !== link);
+        });
+        return link;
+    }
+}
@@ -0,0 +1,15 @@
+import { signalingProvider } from '../../config/peer';
+import { FirestoreSignalingClient } from './firestore';
+import { PeerJsSignalingClient } from './peerjs';
+import { SignalingClient, SignalingOptions } from './types';
+
+export type {
+    SignalingCall, SignalingClient, SignalingDataConnection, SignalingError, SignalingOptions
+} from './types';
+
+// Registers under the given ID with the backend picked by NEXT_PUBLIC_SIGNALING_PROVIDER
+export function createSignalingClient(id: string, options: SignalingOptions): SignalingClient {
+    return (options.provider ?? signalingProvider) === 'firestore'
+        ? new FirestoreSignalingClient(id, options)
+        : new PeerJsSignalingClient(id, options);
+}
@@ -0,0 +1,124 @@
+import Peer, { DataConnection, MediaConnection } from 'peerjs';
+import { peerServerOptions } from '../../config/peer';
+import {
+    CallEvents, ClientEvents, DataConnectionEvents, SignalingCall, SignalingClient, SignalingDataConnection,
+    SignalingError, SignalingOptions
+} from './types';
+
+// Signaling through a PeerJS server, see src/config/peer.ts for which one
+
+// PeerJS errors carry more than the adapter exposes
+function toError(error: { type: string, message: string }): SignalingError {
+    return { type: error.type, message: error.message };
+}
+
+class PeerJsCall implements SignalingCall {
+    constructor(private connection: MediaConnection) {}
+
+    get peer() {
+        return this.connection.peer;
+    }
+
+    get peerConnection() {
+        return this.connection.peerConnection ?? undefined;
+    }
+
+    answer(stream: MediaStream) {
+        this.connection.answer(stream);
+    }
+
+    close() {
+        this.connection.close();
+    }
+
+    // Each event is forwarded on its own, so PeerJS and adapter listener types are both checked
+    on<E extends keyof CallEvents>(event: E, listener: CallEvents[E]) {
+        if (event === 'stream') {
+            this.connection.on('stream', (stream) => (listener as CallEvents['stream'])(stream));
+        } else if (event === 'close') {
+            this.connection.on('close', () => (listener as CallEvents['close'])());
+        } else if (event === 'error') {
+            this.connection.on('error', (error) => (listener as CallEvents['error'])(toError(error)));
+        }
+    }
+}
+
+class PeerJsDataConnection implements SignalingDataConnection {
+    constructor(private connection: DataConnection) {}
+
+    get peer() {
+        return this.connection.peer;
+    }
+
+    get open() {
+        return this.connection.open;
+    }
+
+    send(data: unknown) {
+        this.connection.send(data);
+    }
+
+    close() {
+        this.connection.close();
+    }
+
+    on<E extends keyof DataConnectionEvents>(event: E, listener: DataConnectionEvents[E]) {
+        if (event === 'open') {
+            this.connection.on('open', () => (listener as DataConnectionEvents['open'])());
+        } else if (event === 'data') {
+            this.connection.on('data', (data) => (listener as DataConnectionEvents['data'])(data));
+        } else if (event === 'close') {
+            this.connection.on('close', () => (listener as DataConnectionEvents['close'])());
+        } else if (event === 'error') {
+            this.connection.on('error', (error) => (listener as DataConnectionEvents['error'])(toError(error)));
+        }
+    }
+}
+
+export class PeerJsSignalingClient implements SignalingClient {
+    private peer: Peer;
+
+    constructor(readonly id: string, options: SignalingOptions) {
+        this.peer = new Peer(id, {
+            ...peerServerOptions,
+            debug: options.debug ? 3 : 0,
+            config: options.rtcConfig
+        });
+    }
+
+    get destroyed() {
+        return this.peer.destroyed;
+    }
+
+    call(peerId: string, stream: MediaStream) {
+        return new PeerJsCall(this.peer.call(peerId, stream));
+    }
+
+    connect(peerId: string) {
+        return new PeerJsDataConnection(this.peer.connect(peerId, { reliable: true, serialization: 'json' }));
+    }
+
+    reconnect() {
+        this.peer.reconnect();
+    }
+
+    destroy() {
+        this.peer.destroy();
+    }
+
+    on<E extends keyof ClientEvents>(event: E, listener: ClientEvents[E]) {
+        if (event === 'call') {
+            this.peer.on('call', (connection) => (listener as ClientEvents['call'])(new PeerJsCall(connection)));
+        } else if (event === 'connection') {
+            this.peer.on('connection', (connection) =>
+                (listener as ClientEvents['connection'])(new PeerJsDataConnection(connection))
+            );
+        } else if (event === 'open') {
+            this.peer.on('open', (id) => (listener as ClientEvents['open'])(id));
+        } else if (event === 'error') {
+            this.peer.on('error', (error) => (listener as ClientEvents['error'])(toError(error)));
+        } else if (event === 'disconnected') {
+            this.peer.on('disconnected', () => (listener as ClientEvents['disconnected'])());
+        }
+    }
+}
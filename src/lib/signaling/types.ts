@@ -0,0 +1,83 @@
+import type { SignalingProvider } from '../../config/peer';
+
+// Common surface of the signaling backends, modelled on the parts of PeerJS the call page uses
+
+export interface SignalingError {
+    type: string;
+    message: string;
+}
+
+type Listener = (...args: any[]) => void;
+
+// Minimal typed event emitter shared by the backends
+export class Emitter<Events extends { [event: string]: Listener }> {
+    private listeners: { [E in keyof Events]?: Events[E][] } = {};
+
+    on<E extends keyof Events>(event: E, listener: Events[E]) {
+        (this.listeners[event] ||= []).push(listener);
+    }
+
+    emit<E extends keyof Events>(event: E, ...args: Parameters<Events[E]>) {
+        this.listeners[event]?.forEach(listener => listener(...args));
+    }
+}
+
+export type CallEvents = {
+    stream: (remoteStream: MediaStream) => void;
+    close: () => void;
+    error: (error: SignalingError) => void;
+};
+
+// One media call with the partner, either placed by us or received
+export interface SignalingCall {
+    // Signaling ID of the other side
+    readonly peer: string;
+    readonly peerConnection: RTCPeerConnection | undefined;
+    answer(stream: MediaStream): void;
+    close(): void;
+    on<E extends keyof CallEvents>(event: E, listener: CallEvents[E]): void;
+}
+
+export type DataConnectionEvents = {
+    open: () => void;
+    data: (data: unknown) => void;
+    close: () => void;
+    error: (error: SignalingError) => void;
+};
+
+// Reliable message channel with the partner, JSON in and out
+export interface SignalingDataConnection {
+    readonly peer: string;
+    readonly open: boolean;
+    send(data: unknown): void;
+    close(): void;
+    on<E extends keyof DataConnectionEvents>(event: E, listener: DataConnectionEvents[E]): void;
+}
+
+export type ClientEvents = {
+    open: (id: string) => void;
+    call: (call: SignalingCall) => void;
+    connection: (connection: SignalingDataConnection) => void;
+    error: (error: SignalingError) => void;
+    disconnected: () => void;
+};
+
+// Our registration with the signaling backend under a fixed ID
+export interface SignalingClient {
+    readonly id: string;
+    readonly destroyed: boolean;
+    call(peerId: string, stream: MediaStream): SignalingCall;
+    connect(peerId: string): SignalingDataConnection;
+    reconnect(): void;
+    destroy(): void;
+    on<E extends keyof ClientEvents>(event: E, listener: ClientEvents[E]): void;
+}
+
+export interface SignalingOptions {
+    // Firestore signaling is scoped to the session's signaling subcollection
+    sessionId?: string;
+    // Overrides NEXT_PUBLIC_SIGNALING_PROVIDER, e.g. for call-test which has no session
+    provider?: SignalingProvider;
+    rtcConfig?: RTCConfiguration;
+    debug?: boolean;
+}
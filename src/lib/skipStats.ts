@@ -0,0 +1,49 @@
+import { db } from '../config/firebase-admin';
+import { DocumentData, FieldValue } from 'firebase-admin/firestore';
+import { isEarlyEnd } from './matchHistory';
+
+// How many of a user's latest calls count towards their skip rate
+const RECENT_CALLS = 20;
+// Below this many calls nobody is penalised, a couple of early skips are normal
+const MIN_CALLS_FOR_PENALTY = Number(process.env.SERIAL_SKIPPER_MIN_CALLS) || 5;
+const SKIP_RATE_THRESHOLD = Number(process.env.SERIAL_SKIPPER_RATE) || 0.6;
+const REQUEUE_DELAY_MS = (Number(process.env.SERIAL_SKIPPER_DELAY_SECONDS) || 60) * 1000;
+
+function statsRef(userId: string) {
+    return db.collection('skip_stats').doc(userId);
+}
+
+// Records, per participant, whether they bailed out of the call within seconds
+export async function recordCallOutcomes(outcomes: Record<string, boolean>) {
+    await Promise.all(Object.entries(outcomes).map(([userId, quickSkip]) =>
+        db.runTransaction(async (transaction) => {
+            const ref = statsRef(userId);
+            const recent: boolean[] = (await transaction.get(ref)).data()?.recent || [];
+            const updated = [...recent, quickSkip].slice(-RECENT_CALLS);
+
+            transaction.set(ref, {
+                recent: updated,
+                skipRate: updated.filter(Boolean).length / updated.length,
+                updatedAt: FieldValue.serverTimestamp()
+            });
+        })
+    ));
+}
+
+// Counts a finished video call towards both participants' skip rates. Only whoever ended it within
+// seconds is a quick skip, sitting through the call or being left behind counts as a full call.
+export async function recordVideoCallOutcomes(sessionData: DocumentData, endedBy: string | null) {
+    const quickSkipper = endedBy && isEarlyEnd(sessionData) ? endedBy : null;
+    await recordCallOutcomes(Object.fromEntries(
+        sessionData.participants.map((id: string) => [id, id === quickSkipper])
+    ));
+}
+
+// How long to hold a user back from matching when they rejoin the queue
+export async function getRequeueDelayMs(userId: string) {
+    const stats = (await statsRef(userId).get()).data();
+    if (!stats || stats.recent.length < MIN_CALLS_FOR_PENALTY || stats.skipRate < SKIP_RATE_THRESHOLD) {
+        return 0;
+    }
+    return REQUEUE_DELAY_MS;
+}
@@ -0,0 +1,14 @@
+// Shared between the skip dialog and /api/sessions/skip
+export const SKIP_REASONS = [
+    { value: 'not_a_match', label: 'Not a match for me' },
+    { value: 'bad_connection', label: 'Bad connection' },
+    { value: 'no_video', label: 'Couldn\'t see them' },
+    { value: 'uncomfortable', label: 'I felt uncomfortable' },
+    { value: 'other', label: 'Something else' },
+] as const;
+
+export type SkipReason = typeof SKIP_REASONS[number]['value'];
+
+export function isSkipReason(value: unknown): value is SkipReason {
+    return SKIP_REASONS.some(reason => reason.value === value);
+}
@@ -1,10 +1,13 @@
 import { auth } from '../config/firebase-admin';
 import { NextApiRequest, NextApiResponse } from 'next';
+import { getActiveBan } from '../lib/bans';
 
 export interface AuthenticatedRequest extends NextApiRequest {
     user: {
         uid: string;
         email: string;
+        // The `admin` custom claim, checked by adminMiddleware
+        admin: boolean;
     };
 }
 
@@ -25,11 +28,43 @@ export async function authMiddleware(
         req.user = {
             uid: decodedToken.uid,
             email: decodedToken.email || '',
+            admin: decodedToken.admin === true
         };
-
-        await next();
     } catch (error) {
         console.error('Auth error:', error);
         return res.status(401).json({ error: 'Unauthorized' });
     }
-} 
\ No newline at end of file
+
+    try {
+        const ban = await getActiveBan(req.user.uid);
+        if (ban) {
+            // Distinct code so the client can show the suspension screen instead of a generic error
+            return res.status(403).json({
+                error: 'Account suspended',
+                code: 'account_suspended',
+                ban
+            });
+        }
+    } catch (error) {
+        console.error('Ban check error:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+
+    await next();
+}
+
+// authMiddleware that only lets through users with the `admin` custom claim.
+// Grant it with `npm run grant-admin -- <email>`.
+export async function adminMiddleware(
+    req: AuthenticatedRequest,
+    res: NextApiResponse,
+    next: () => Promise<void>
+) {
+    await authMiddleware(req, res, async () => {
+        if (!req.user.admin) {
+            return res.status(403).json({ error: 'Forbidden' });
+        }
+
+        await next();
+    });
+}
@@ -4,6 +4,8 @@ import { useRouter } from 'next/router';
 import { useEffect } from 'react';
 import { AuthProvider } from '../contexts/AuthContext';
 import TermsOfServicePopup from '../components/TermsOfServicePopup';
+import SuspensionScreen from '../components/SuspensionScreen';
+import CallInviteNotification from '../components/CallInviteNotification';
 import { Analytics } from "@vercel/analytics/react"
 import Script from "next/script";
 import { GA_TRACKING_ID } from "../lib/gtag";
@@ -42,6 +44,8 @@ export default function App({ Component, pageProps }: AppProps) {
       </Script>
       <Component {...pageProps} />
       <TermsOfServicePopup />
+      <CallInviteNotification />
+      <SuspensionScreen />
       <Analytics />
     </AuthProvider>
   );
@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Layout from '../../components/Layout';
+import { useAuth } from '../../contexts/AuthContext';
+import { getAdminFeedback, getAdminReports, getAdminStats } from '../../utils/api';
+import { getReportReasonLabel } from '../../lib/reports';
+import { getFeedbackTagLabel } from '../../lib/feedback';
+
+interface AdminStats {
+    queueCount: number;
+    activeSessionsCount: number;
+    openReportsCount: number;
+}
+
+interface ReportSummary {
+    id: string;
+    reporterId: string;
+    reportedUserId: string;
+    sessionId: string;
+    reason: string;
+    details: string;
+    status: string;
+    createdAt?: string;
+}
+
+interface FeedbackSummary {
+    days: number;
+    count: number;
+    averageRating: number | null;
+    feltSafeRate: number | null;
+    ratingDistribution: number[];
+    tagCounts: Record<string, number>;
+    recentComments: Array<{
+        id: string;
+        sessionId: string;
+        rating: number;
+        comment: string;
+        createdAt?: string;
+    }>;
+}
+
+type ReportStatus = 'open' | 'actioned' | 'dismissed';
+
+export default function AdminPage() {
+    const { user, isAdmin } = useAuth();
+    const [stats, setStats] = useState<AdminStats | null>(null);
+    const [reports, setReports] = useState<ReportSummary[]>([]);
+    const [feedback, setFeedback] = useState<FeedbackSummary | null>(null);
+    const [reportStatus, setReportStatus] = useState<ReportStatus>('open');
+    const [isLoading, setIsLoading] = useState(true);
+
+    // Poll the counts so the dashboard stays live
+    useEffect(() => {
+        if (!user || !isAdmin) return;
+
+        const loadStats = () => {
+            getAdminStats()
+                .then(setStats)
+                .catch(error => console.error('Error loading admin stats:', error));
+        };
+
+        const interval = setInterval(loadStats, 5000);
+        loadStats();
+
+        return () => clearInterval(interval);
+    }, [user, isAdmin]);
+
+    useEffect(() => {
+        if (!user || !isAdmin) return;
+
+        getAdminFeedback()
+            .then(setFeedback)
+            .catch(error => console.error('Error loading feedback:', error));
+    }, [user, isAdmin]);
+
+    useEffect(() => {
+        if (!user || !isAdmin) return;
+
+        setIsLoading(true);
+        getAdminReports(reportStatus)
+            .then(data => setReports(data.reports || []))
+            .catch(error => console.error('Error loading reports:', error))
+            .finally(() => setIsLoading(false));
+    }, [user, isAdmin, reportStatus]);
+
+    if (!isAdmin) {
+        return (
+            <Layout title="Admin">
+                <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center">
+                    <p className="text-black dark:text-white">You do not have access to this page.</p>
+                </div>
+            </Layout>
+        );
+    }
+
+    return (
+        <Layout title="Admin">
+            <div className="max-w-5xl mx-auto p-8">
+                <h1 className="text-3xl font-bold text-black dark:text-white mb-8">Moderation</h1>
+
+                <div className="grid grid-cols-3 gap-4 mb-8">
+                    {[
+                        { label: 'in queue', value: stats?.queueCount },
+                        { label: 'active sessions', value: stats?.activeSessionsCount },
+                        { label: 'open reports', value: stats?.openReportsCount },
+                    ].map(stat => (
+                        <div key={stat.label} className="bg-white dark:bg-gray-800 rounded-lg px-6 py-4 shadow-lg text-center">
+                            <div className="text-2xl font-bold text-purple-500">{stat.value ?? '–'}</div>
+                            <div className="text-sm text-gray-400">{stat.label}</div>
+                        </div>
+                    ))}
+                </div>
+
+                {feedback && (
+                    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mb-8">
+                        <h2 className="text-lg font-medium text-black dark:text-white mb-4">
+                            Call feedback (last {feedback.days} days, {feedback.count} responses)
+                        </h2>
+                        <div className="grid grid-cols-2 gap-4 mb-4">
+                            <div>
+                                <div className="text-2xl font-bold text-purple-500">
+                                    {feedback.averageRating !== null ? `${feedback.averageRating.toFixed(1)} ★` : '–'}
+                                </div>
+                                <div className="text-sm text-gray-400">
+                                    average rating ({feedback.ratingDistribution.map((count, index) => `${index + 1}★ ${count}`).join(', ')})
+                                </div>
+                            </div>
+                            <div>
+                                <div className="text-2xl font-bold text-purple-500">
+                                    {feedback.feltSafeRate !== null ? `${Math.round(feedback.feltSafeRate * 100)}%` : '–'}
+                                </div>
+                                <div className="text-sm text-gray-400">felt safe</div>
+                            </div>
+                        </div>
+                        {Object.keys(feedback.tagCounts).length > 0 && (
+                            <div className="flex flex-wrap gap-2 mb-4">
+                                {Object.entries(feedback.tagCounts)
+                                    .sort(([, a], [, b]) => b - a)
+                                    .map(([tag, count]) => (
+                                        <span key={tag} className="px-3 py-1 rounded-full text-sm bg-gray-200 text-black dark:bg-gray-700 dark:text-white">
+                                            {getFeedbackTagLabel(tag)}: {count}
+                                        </span>
+                                    ))}
+                            </div>
+                        )}
+                        {feedback.recentComments.length > 0 && (
+                            <ul className="space-y-2">
+                                {feedback.recentComments.map(comment => (
+                                    <li key={comment.id} className="text-sm text-gray-600 dark:text-gray-300">
+                                        <span className="text-yellow-500">{'★'.repeat(comment.rating)}</span> {comment.comment}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
+
+                <div className="flex gap-2 mb-4">
+                    {(['open', 'actioned', 'dismissed'] as const).map(status => (
+                        <button
+                            key={status}
+                            onClick={() => setReportStatus(status)}
+                            className={`px-4 py-2 rounded-md capitalize ${reportStatus === status
+                                ? 'bg-purple-600 text-white'
+                                : 'bg-gray-200 hover:bg-gray-300 text-black dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-white'
+                                }`}
+                        >
+                            {status}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg divide-y divide-gray-200 dark:divide-gray-700">
+                    {isLoading ? (
+                        <p className="p-6 text-gray-600 dark:text-gray-400">Loading...</p>
+                    ) : reports.length === 0 ? (
+                        <p className="p-6 text-gray-600 dark:text-gray-400">No {reportStatus} reports.</p>
+                    ) : reports.map(report => (
+                        <Link
+                            key={report.id}
+                            href={`/admin/reports/${report.id}`}
+                            className="block p-4 hover:bg-gray-50 dark:hover:bg-gray-700"
+                        >
+                            <div className="flex justify-between">
+                                <span className="font-medium text-black dark:text-white">{getReportReasonLabel(report.reason)}</span>
+                                <span className="text-sm text-gray-500 dark:text-gray-400">
+                                    {report.createdAt && new Date(report.createdAt).toLocaleString()}
+                                </span>
+                            </div>
+                            {report.details && (
+                                <p className="text-sm text-gray-600 dark:text-gray-300 mt-1 truncate">{report.details}</p>
+                            )}
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 font-mono">
+                                reported {report.reportedUserId} in session {report.sessionId}
+                            </p>
+                        </Link>
+                    ))}
+                </div>
+            </div>
+        </Layout>
+    );
+}
@@ -0,0 +1,243 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import Layout from '../../../components/Layout';
+import { useAuth } from '../../../contexts/AuthContext';
+import { getAdminReport, resolveReport } from '../../../utils/api';
+import { getReportReasonLabel } from '../../../lib/reports';
+
+interface Message {
+    id: string;
+    text: string;
+    senderId: string;
+    timestamp?: string;
+    // Original of a message the partner only saw masked
+    heldText?: string;
+}
+
+interface Participant {
+    id: string;
+    name: string;
+    email: string;
+    reportsAgainst: number;
+    ban: { permanent: boolean, reason: string, until: string | null } | null;
+}
+
+interface ReportDetail {
+    report: {
+        id: string;
+        reporterId: string;
+        reportedUserId: string;
+        sessionId: string;
+        reason: string;
+        details: string;
+        status: string;
+        resolution?: string;
+        createdAt?: string;
+        messages: Message[];
+    };
+    session: {
+        id: string;
+        status: string;
+        startTime?: string;
+        messages: Message[];
+    } | null;
+    participants: Participant[];
+}
+
+export default function AdminReportPage() {
+    const router = useRouter();
+    const { id: reportId } = router.query;
+    const { user, isAdmin } = useAuth();
+    const [detail, setDetail] = useState<ReportDetail | null>(null);
+    const [durationHours, setDurationHours] = useState(24);
+    const [reason, setReason] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadReport = useCallback(() => {
+        if (!reportId) return;
+        getAdminReport(reportId as string)
+            .then(data => {
+                if (data.error) {
+                    setError(data.error);
+                } else {
+                    setDetail(data);
+                }
+            })
+            .catch(error => console.error('Error loading report:', error));
+    }, [reportId]);
+
+    useEffect(() => {
+        if (!user || !isAdmin) return;
+        loadReport();
+    }, [user, isAdmin, loadReport]);
+
+    const handleResolve = async (action: 'ban' | 'suspend' | 'dismiss') => {
+        if (!reportId) return;
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            await resolveReport(reportId as string, action, { durationHours, reason });
+            loadReport();
+        } catch (error) {
+            console.error('Error resolving report:', error);
+            setError(error instanceof Error ? error.message : 'Failed to resolve report');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (!isAdmin) {
+        return (
+            <Layout title="Admin">
+                <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center">
+                    <p className="text-black dark:text-white">You do not have access to this page.</p>
+                </div>
+            </Layout>
+        );
+    }
+
+    if (!detail) {
+        return (
+            <Layout title="Report">
+                <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center">
+                    <p className="text-black dark:text-white">{error || 'Loading...'}</p>
+                </div>
+            </Layout>
+        );
+    }
+
+    const { report, session, participants } = detail;
+    const nameOf = (id: string) => participants.find(p => p.id === id)?.name || id;
+    // Prefer the live session messages, the report snapshot is all that is left once the session is deleted
+    const messages = session?.messages.length ? session.messages : report.messages;
+
+    return (
+        <Layout title="Report">
+            <div className="max-w-5xl mx-auto p-8 space-y-6">
+                <Link href="/admin" className="text-sm text-purple-600 dark:text-purple-400">← All reports</Link>
+
+                <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg">
+                    <div className="flex justify-between items-start">
+                        <div>
+                            <h1 className="text-2xl font-bold text-black dark:text-white">{getReportReasonLabel(report.reason)}</h1>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                {nameOf(report.reporterId)} reported {nameOf(report.reportedUserId)}
+                                {report.createdAt && ` on ${new Date(report.createdAt).toLocaleString()}`}
+                            </p>
+                        </div>
+                        <span className="px-3 py-1 rounded-full text-sm capitalize bg-gray-200 dark:bg-gray-700 text-black dark:text-white">
+                            {report.resolution || report.status}
+                        </span>
+                    </div>
+                    {report.details && (
+                        <p className="mt-4 text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{report.details}</p>
+                    )}
+                </div>
+
+                <div className="grid md:grid-cols-2 gap-4">
+                    {participants.map(participant => (
+                        <div key={participant.id} className="bg-white dark:bg-gray-800 rounded-lg p-4 shadow-lg">
+                            <p className="font-medium text-black dark:text-white">
+                                {participant.name}
+                                {participant.id === report.reportedUserId && (
+                                    <span className="ml-2 text-xs text-red-500">reported</span>
+                                )}
+                            </p>
+                            <p className="text-sm text-gray-600 dark:text-gray-400">{participant.email}</p>
+                            <p className="text-xs text-gray-500 font-mono">{participant.id}</p>
+                            <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+                                {participant.reportsAgainst} report(s) against
+                            </p>
+                            {participant.ban && (
+                                <p className="text-sm text-red-500 mt-1">
+                                    {participant.ban.permanent
+                                        ? 'Banned'
+                                        : `Suspended until ${new Date(participant.ban.until!).toLocaleString()}`}
+                                </p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg">
+                    <h2 className="text-lg font-medium text-black dark:text-white mb-4">
+                        Messages {session ? `(session ${session.status})` : '(snapshot, session deleted)'}
+                    </h2>
+                    {messages.length === 0 ? (
+                        <p className="text-gray-600 dark:text-gray-400">No messages.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {messages.map(msg => (
+                                <li key={msg.id} className="text-sm">
+                                    <span className={`font-medium ${msg.senderId === report.reportedUserId ? 'text-red-500' : 'text-purple-600 dark:text-purple-400'}`}>
+                                        {nameOf(msg.senderId)}
+                                    </span>
+                                    <span className="text-gray-500 ml-2">
+                                        {msg.timestamp && new Date(msg.timestamp).toLocaleTimeString()}
+                                    </span>
+                                    <p className="text-black dark:text-white">{msg.text}</p>
+                                    {msg.heldText && (
+                                        <p className="text-gray-600 dark:text-gray-400">
+                                            Held back from the partner: {msg.heldText}
+                                        </p>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {report.status === 'open' && (
+                    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg space-y-4">
+                        <h2 className="text-lg font-medium text-black dark:text-white">Action</h2>
+                        <input
+                            type="text"
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            placeholder="Reason shown to the user (defaults to the report reason)"
+                            className="w-full px-3 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        />
+                        <div className="flex flex-wrap items-center gap-4">
+                            <label className="flex items-center gap-2 text-black dark:text-white">
+                                Suspend for
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={durationHours}
+                                    onChange={(e) => setDurationHours(Number(e.target.value))}
+                                    className="w-20 px-2 py-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md"
+                                />
+                                hours
+                            </label>
+                            <button
+                                onClick={() => handleResolve('suspend')}
+                                disabled={isSubmitting}
+                                className="px-4 py-2 bg-yellow-500 hover:bg-yellow-600 text-white rounded-md disabled:opacity-50"
+                            >
+                                Suspend
+                            </button>
+                            <button
+                                onClick={() => handleResolve('ban')}
+                                disabled={isSubmitting}
+                                className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-md disabled:opacity-50"
+                            >
+                                Ban permanently
+                            </button>
+                            <button
+                                onClick={() => handleResolve('dismiss')}
+                                disabled={isSubmitting}
+                                className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-black dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white rounded-md disabled:opacity-50"
+                            >
+                                Dismiss
+                            </button>
+                        </div>
+                        {error && <p className="text-sm text-red-500">{error}</p>}
+                    </div>
+                )}
+            </div>
+        </Layout>
+    );
+}
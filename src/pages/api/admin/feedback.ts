@@ -0,0 +1,70 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, adminMiddleware } from '../../../middleware/authMiddleware';
+import { db } from '../../../config/firebase-admin';
+import { Timestamp } from 'firebase-admin/firestore';
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 90;
+// Upper bound on documents read per request, the newest ones win
+const MAX_FEEDBACK = 5000;
+const RECENT_COMMENTS = 20;
+
+// Post-call feedback summed up over the last ?days (default 7, at most 90)
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await adminMiddleware(req, res, async () => {
+        try {
+            const days = Math.min(Math.max(Math.floor(Number(req.query.days)) || DEFAULT_DAYS, 1), MAX_DAYS);
+            const since = Timestamp.fromMillis(Date.now() - days * 24 * 60 * 60 * 1000);
+
+            const feedbackSnapshot = await db.collection('feedback')
+                .where('createdAt', '>=', since)
+                .orderBy('createdAt', 'desc')
+                .limit(MAX_FEEDBACK)
+                .get();
+
+            const ratingDistribution = [0, 0, 0, 0, 0];
+            const tagCounts: Record<string, number> = {};
+            let ratingTotal = 0;
+            let feltSafeCount = 0;
+
+            feedbackSnapshot.docs.forEach(doc => {
+                const data = doc.data();
+                ratingTotal += data.rating;
+                ratingDistribution[data.rating - 1]++;
+                if (data.feltSafe) feltSafeCount++;
+                (data.tags || []).forEach((tag: string) => {
+                    tagCounts[tag] = (tagCounts[tag] || 0) + 1;
+                });
+            });
+
+            const count = feedbackSnapshot.size;
+            const recentComments = feedbackSnapshot.docs
+                .filter(doc => doc.data().comment)
+                .slice(0, RECENT_COMMENTS)
+                .map(doc => ({
+                    id: doc.id,
+                    sessionId: doc.data().sessionId,
+                    rating: doc.data().rating,
+                    comment: doc.data().comment,
+                    createdAt: doc.data().createdAt?.toDate()
+                }));
+
+            res.status(200).json({
+                days,
+                count,
+                averageRating: count > 0 ? ratingTotal / count : null,
+                feltSafeRate: count > 0 ? feltSafeCount / count : null,
+                ratingDistribution,
+                tagCounts,
+                recentComments
+            });
+        } catch (error) {
+            console.error('Admin feedback error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
@@ -0,0 +1,76 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, adminMiddleware } from '../../../../../middleware/authMiddleware';
+import { db } from '../../../../../config/firebase-admin';
+import { DocumentData } from 'firebase-admin/firestore';
+import { getActiveBan } from '../../../../../lib/bans';
+import { getRecentMessages, withHeldOriginals } from '../../../../../lib/messages';
+
+// Enough to cover a whole session, chats only stay open for a few minutes
+const SESSION_MESSAGE_LIMIT = 500;
+
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await adminMiddleware(req, res, async () => {
+        try {
+            const reportDoc = await db.collection('reports').doc(req.query.id as string).get();
+            const reportData = reportDoc.data();
+            if (!reportData) {
+                return res.status(404).json({ error: 'Report not found' });
+            }
+
+            // The session may already be gone, the report keeps its own copy of the messages
+            const sessionDoc = await db.collection('sessions').doc(reportData.sessionId).get();
+            const sessionData = sessionDoc.data();
+
+            const participantIds: string[] = sessionData?.participants || [reportData.reporterId, reportData.reportedUserId];
+            const participantDocs = await db.getAll(...participantIds.map(id => db.collection('users').doc(id)));
+
+            const participants = await Promise.all(participantDocs.map(async (doc) => {
+                const data = doc.data();
+                const reportsAgainst = await db.collection('reports')
+                    .where('reportedUserId', '==', doc.id)
+                    .count()
+                    .get();
+                return {
+                    id: doc.id,
+                    name: data?.name || data?.displayName || 'Anonymous User',
+                    email: data?.email || '',
+                    reportsAgainst: reportsAgainst.data().count,
+                    ban: await getActiveBan(doc.id)
+                };
+            }));
+
+            const sessionMessages = sessionData
+                ? await withHeldOriginals(sessionDoc.id, await getRecentMessages(sessionDoc.id, SESSION_MESSAGE_LIMIT))
+                : [];
+
+            const toMessage = (msg: DocumentData) => ({
+                ...msg,
+                timestamp: msg.timestamp?.toDate?.() ?? msg.timestamp
+            });
+
+            res.status(200).json({
+                report: {
+                    id: reportDoc.id,
+                    ...reportData,
+                    createdAt: reportData.createdAt?.toDate(),
+                    resolvedAt: reportData.resolvedAt?.toDate(),
+                    messages: (reportData.messages || []).map(toMessage)
+                },
+                session: sessionData ? {
+                    id: sessionDoc.id,
+                    status: sessionData.status,
+                    startTime: sessionData.startTime?.toDate(),
+                    messages: sessionMessages.map(toMessage)
+                } : null,
+                participants
+            });
+        } catch (error) {
+            console.error('Admin report fetch error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
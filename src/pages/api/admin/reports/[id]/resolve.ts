@@ -0,0 +1,53 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, adminMiddleware } from '../../../../../middleware/authMiddleware';
+import { db } from '../../../../../config/firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import { banUser } from '../../../../../lib/bans';
+
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await adminMiddleware(req, res, async () => {
+        try {
+            const { action, durationHours, reason = '' } = req.body;
+
+            if (!['ban', 'suspend', 'dismiss'].includes(action) ||
+                (action === 'suspend' && !(Number(durationHours) > 0))) {
+                return res.status(400).json({ error: 'Invalid action' });
+            }
+
+            if (typeof reason !== 'string') {
+                return res.status(400).json({ error: 'Invalid reason' });
+            }
+
+            const reportRef = db.collection('reports').doc(req.query.id as string);
+            const reportDoc = await reportRef.get();
+            const reportData = reportDoc.data();
+            if (!reportData) {
+                return res.status(404).json({ error: 'Report not found' });
+            }
+
+            if (action !== 'dismiss') {
+                await banUser(reportData.reportedUserId, {
+                    until: action === 'suspend' ? new Date(Date.now() + Number(durationHours) * 60 * 60 * 1000) : null,
+                    reason: reason.trim() || reportData.reason,
+                    bannedBy: req.user.uid
+                });
+            }
+
+            await reportRef.update({
+                status: action === 'dismiss' ? 'dismissed' : 'actioned',
+                resolution: action,
+                resolvedBy: req.user.uid,
+                resolvedAt: FieldValue.serverTimestamp()
+            });
+
+            res.status(200).json({ message: 'Report resolved' });
+        } catch (error) {
+            console.error('Admin report resolve error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
@@ -0,0 +1,45 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, adminMiddleware } from '../../../../middleware/authMiddleware';
+import { db } from '../../../../config/firebase-admin';
+
+const REPORT_STATUSES = ['open', 'actioned', 'dismissed'];
+
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await adminMiddleware(req, res, async () => {
+        try {
+            const status = typeof req.query.status === 'string' ? req.query.status : 'open';
+            if (!REPORT_STATUSES.includes(status)) {
+                return res.status(400).json({ error: 'Invalid status' });
+            }
+
+            const reportsSnapshot = await db.collection('reports')
+                .where('status', '==', status)
+                .orderBy('createdAt', 'desc')
+                .limit(100)
+                .get();
+
+            const reports = reportsSnapshot.docs.map(doc => {
+                const data = doc.data();
+                return {
+                    id: doc.id,
+                    reporterId: data.reporterId,
+                    reportedUserId: data.reportedUserId,
+                    sessionId: data.sessionId,
+                    reason: data.reason,
+                    details: data.details,
+                    status: data.status,
+                    createdAt: data.createdAt?.toDate()
+                };
+            });
+
+            res.status(200).json({ reports });
+        } catch (error) {
+            console.error('Admin reports list error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
@@ -0,0 +1,28 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, adminMiddleware } from '../../../middleware/authMiddleware';
+import { db } from '../../../config/firebase-admin';
+
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await adminMiddleware(req, res, async () => {
+        try {
+            const [queueSnapshot, sessionsSnapshot, reportsSnapshot] = await Promise.all([
+                db.collection('matchmaking_queue').where('status', '==', 'waiting').count().get(),
+                db.collection('sessions').where('status', 'in', ['video', 'chat']).count().get(),
+                db.collection('reports').where('status', '==', 'open').count().get(),
+            ]);
+
+            res.status(200).json({
+                queueCount: queueSnapshot.data().count,
+                activeSessionsCount: sessionsSnapshot.data().count,
+                openReportsCount: reportsSnapshot.data().count
+            });
+        } catch (error) {
+            console.error('Admin stats error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
@@ -0,0 +1,68 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
+import { db } from '../../../config/firebase-admin';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { blockRef } from '../../../lib/blocks';
+import { CALL_INVITE_TTL_MS, callInviteRef, isInviteOpen } from '../../../lib/callInvites';
+
+// Invites a mutual connection to a video call, skipping the random queue
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await authMiddleware(req, res, async () => {
+        try {
+            const { connectionId } = req.body;
+
+            if (typeof connectionId !== 'string' || !connectionId) {
+                return res.status(400).json({ error: 'Invalid connection' });
+            }
+
+            const connectionDoc = await db.collection('connections').doc(connectionId).get();
+            const connectionData = connectionDoc.data();
+
+            if (!connectionData || !connectionData.participants.includes(req.user.uid)) {
+                return res.status(403).json({ error: 'Not authorized for this connection' });
+            }
+
+            const partnerId = connectionData.participants.find((p: string) => p !== req.user.uid);
+            if ((await blockRef(partnerId, req.user.uid).get()).exists) {
+                return res.status(403).json({ error: 'Not authorized for this connection' });
+            }
+
+            const userDoc = await db.collection('users').doc(req.user.uid).get();
+            if (userDoc.data()?.activeSession) {
+                return res.status(400).json({ error: 'User already in active session' });
+            }
+
+            const inviteRef = callInviteRef(connectionId);
+            const created = await db.runTransaction(async (transaction) => {
+                const inviteDoc = await transaction.get(inviteRef);
+                if (isInviteOpen(inviteDoc.data())) {
+                    return false;
+                }
+
+                transaction.set(inviteRef, {
+                    connectionId,
+                    fromId: req.user.uid,
+                    fromName: userDoc.data()?.name || 'Anonymous User',
+                    toId: partnerId,
+                    status: 'pending',
+                    createdAt: FieldValue.serverTimestamp(),
+                    expiresAt: Timestamp.fromMillis(Date.now() + CALL_INVITE_TTL_MS)
+                });
+                return true;
+            });
+
+            if (!created) {
+                return res.status(409).json({ error: 'There is already a pending invite' });
+            }
+
+            res.status(200).json({ inviteId: inviteRef.id });
+        } catch (error) {
+            console.error('Call invite error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
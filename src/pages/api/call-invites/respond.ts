@@ -0,0 +1,89 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
+import { db } from '../../../config/firebase-admin';
+import { DocumentReference } from 'firebase-admin/firestore';
+import { blockRef } from '../../../lib/blocks';
+import { callInviteRef, isInviteOpen } from '../../../lib/callInvites';
+import { connectionRef } from '../../../lib/connections';
+import { recordMatch } from '../../../lib/matchHistory';
+import { buildSession, LIVE_SESSION_STATUSES } from '../../../lib/sessionLifecycle';
+
+type InviteAction = 'accept' | 'decline' | 'cancel';
+
+// Accept or decline an invite as its recipient, or cancel it as its sender.
+// Accepting starts a session for the two of them, just like the matcher would.
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await authMiddleware(req, res, async () => {
+        try {
+            const { inviteId, action } = req.body as { inviteId: unknown, action: InviteAction };
+
+            if (typeof inviteId !== 'string' || !inviteId || !['accept', 'decline', 'cancel'].includes(action)) {
+                return res.status(400).json({ error: 'Invalid request' });
+            }
+
+            const inviteRef = callInviteRef(inviteId);
+
+            const result = await db.runTransaction(async (transaction) => {
+                const inviteDoc = await transaction.get(inviteRef);
+                const inviteData = inviteDoc.data();
+
+                const allowed = action === 'cancel' ? inviteData?.fromId : inviteData?.toId;
+                if (!inviteData || allowed !== req.user.uid) {
+                    return { status: 403, body: { error: 'Not authorized for this invite' } };
+                }
+                if (!isInviteOpen(inviteData)) {
+                    return { status: 410, body: { error: 'This invite is no longer open' } };
+                }
+
+                if (action !== 'accept') {
+                    transaction.update(inviteRef, { status: action === 'decline' ? 'declined' : 'cancelled' });
+                    return { status: 200, body: { status: action === 'decline' ? 'declined' : 'cancelled' } };
+                }
+
+                // Reads have to happen before any writes in a transaction
+                const participants: string[] = [inviteData.fromId, inviteData.toId];
+                const [connectionDoc, ...blockDocs] = await transaction.getAll(
+                    connectionRef(inviteData.fromId, inviteData.toId),
+                    blockRef(inviteData.fromId, inviteData.toId),
+                    blockRef(inviteData.toId, inviteData.fromId)
+                );
+                if (!connectionDoc.exists || blockDocs.some(doc => doc.exists)) {
+                    transaction.update(inviteRef, { status: 'cancelled' });
+                    return { status: 410, body: { error: 'This invite is no longer open' } };
+                }
+
+                const userRefs: DocumentReference[] = participants.map(id => db.collection('users').doc(id));
+                const userDocs = await transaction.getAll(...userRefs);
+                const activeSessionIds = userDocs
+                    .map(doc => doc.data()?.activeSession)
+                    .filter(Boolean);
+                const activeSessions = activeSessionIds.length > 0
+                    ? await transaction.getAll(...activeSessionIds.map(id => db.collection('sessions').doc(id)))
+                    : [];
+                if (activeSessions.some(doc => LIVE_SESSION_STATUSES.includes(doc.data()?.status))) {
+                    return { status: 409, body: { error: 'One of you is already in a call' } };
+                }
+
+                const sessionRef = db.collection('sessions').doc();
+                transaction.set(sessionRef, buildSession(participants, 'invite'));
+                participants.forEach(id => {
+                    transaction.update(db.collection('users').doc(id), { activeSession: sessionRef.id });
+                    transaction.delete(db.collection('matchmaking_queue').doc(id));
+                });
+                recordMatch(transaction, participants, sessionRef.id);
+                transaction.update(inviteRef, { status: 'accepted', sessionId: sessionRef.id });
+
+                return { status: 200, body: { status: 'accepted', sessionId: sessionRef.id } };
+            });
+
+            res.status(result.status).json(result.body);
+        } catch (error) {
+            console.error('Call invite response error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
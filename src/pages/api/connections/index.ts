@@ -0,0 +1,50 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
+import { db } from '../../../config/firebase-admin';
+
+const lastActivity = (connection: { connectedAt?: Date, lastMessage: { timestamp?: Date } | null }) =>
+    (connection.lastMessage?.timestamp ?? connection.connectedAt)?.getTime() ?? 0;
+
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await authMiddleware(req, res, async () => {
+        try {
+            const connectionsSnapshot = await db.collection('connections')
+                .where('participants', 'array-contains', req.user.uid)
+                .get();
+
+            const partnerIds = connectionsSnapshot.docs.map(doc =>
+                doc.data().participants.find((p: string) => p !== req.user.uid)
+            );
+            const partnerDocs = partnerIds.length > 0
+                ? await db.getAll(...partnerIds.map(id => db.collection('users').doc(id)))
+                : [];
+
+            const connections = connectionsSnapshot.docs
+                .map((doc, index) => {
+                    const data = doc.data();
+                    return {
+                        id: doc.id,
+                        userId: partnerIds[index],
+                        name: partnerDocs[index]?.data()?.name || 'Anonymous User',
+                        connectedAt: data.createdAt?.toDate(),
+                        lastMessage: data.lastMessage ? {
+                            text: data.lastMessage.text,
+                            senderId: data.lastMessage.senderId,
+                            timestamp: data.lastMessage.timestamp?.toDate()
+                        } : null
+                    };
+                })
+                // Most recent activity first
+                .sort((a, b) => lastActivity(b) - lastActivity(a));
+
+            res.status(200).json({ connections });
+        } catch (error) {
+            console.error('Connections fetch error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
@@ -0,0 +1,70 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
+import { db } from '../../../config/firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import { blockRef } from '../../../lib/blocks';
+import { filterBlockedWords, MAX_MESSAGE_LENGTH, MESSAGE_RATE_LIMIT, MESSAGE_RATE_WINDOW_MS } from '../../../lib/messageFilter';
+import { consumeRateLimit } from '../../../lib/rateLimit';
+
+// Sends a message in a connection conversation. Same limits and filtering as session chat,
+// but contact details are not masked, both sides already chose to stay in touch.
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await authMiddleware(req, res, async () => {
+        try {
+            const { connectionId, text } = req.body;
+
+            if (typeof connectionId !== 'string' || !connectionId || typeof text !== 'string' || !text.trim()) {
+                return res.status(400).json({ error: 'Invalid message' });
+            }
+            if (text.trim().length > MAX_MESSAGE_LENGTH) {
+                return res.status(400).json({ error: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters` });
+            }
+
+            const connectionRef = db.collection('connections').doc(connectionId);
+            const connectionDoc = await connectionRef.get();
+            const connectionData = connectionDoc.data();
+
+            if (!connectionData || !connectionData.participants.includes(req.user.uid)) {
+                return res.status(403).json({ error: 'Not authorized for this conversation' });
+            }
+
+            const partnerId = connectionData.participants.find((p: string) => p !== req.user.uid);
+            if ((await blockRef(partnerId, req.user.uid).get()).exists) {
+                return res.status(403).json({ error: 'Not authorized for this conversation' });
+            }
+
+            if (!await consumeRateLimit(`messages_${req.user.uid}`, MESSAGE_RATE_LIMIT, MESSAGE_RATE_WINDOW_MS)) {
+                return res.status(429).json({ error: 'You are sending messages too fast' });
+            }
+
+            const { text: filteredText, filtered } = filterBlockedWords(text.trim());
+
+            const messageRef = connectionRef.collection('messages').doc();
+            const batch = db.batch();
+            batch.set(messageRef, {
+                text: filteredText,
+                senderId: req.user.uid,
+                timestamp: FieldValue.serverTimestamp(),
+                filtered
+            });
+            // Preview for the connections list
+            batch.update(connectionRef, {
+                lastMessage: {
+                    text: filteredText,
+                    senderId: req.user.uid,
+                    timestamp: FieldValue.serverTimestamp()
+                }
+            });
+            await batch.commit();
+
+            res.status(200).json({ id: messageRef.id });
+        } catch (error) {
+            console.error('Send connection message error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
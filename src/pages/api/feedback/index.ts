@@ -0,0 +1,54 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
+import { db } from '../../../config/firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import { isFeedbackTag, MAX_FEEDBACK_COMMENT_LENGTH } from '../../../lib/feedback';
+
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await authMiddleware(req, res, async () => {
+        try {
+            const { sessionId, rating, feltSafe, comment = '', tags = [] } = req.body;
+
+            if (typeof sessionId !== 'string' || !sessionId ||
+                !Number.isInteger(rating) || rating < 1 || rating > 5 ||
+                typeof feltSafe !== 'boolean' ||
+                typeof comment !== 'string' ||
+                !Array.isArray(tags) || !tags.every(isFeedbackTag)) {
+                return res.status(400).json({ error: 'Invalid feedback' });
+            }
+
+            const sessionDoc = await db.collection('sessions').doc(sessionId).get();
+            const sessionData = sessionDoc.data();
+
+            if (!sessionData || !sessionData.participants.includes(req.user.uid)) {
+                return res.status(403).json({ error: 'Not authorized for this session' });
+            }
+
+            // One piece of feedback per person per session
+            const feedbackRef = db.collection('feedback').doc(`${sessionId}_${req.user.uid}`);
+            if ((await feedbackRef.get()).exists) {
+                return res.status(409).json({ error: 'You already gave feedback for this call' });
+            }
+
+            await feedbackRef.set({
+                sessionId,
+                userId: req.user.uid,
+                partnerId: sessionData.participants.find((p: string) => p !== req.user.uid),
+                rating,
+                feltSafe,
+                comment: comment.trim().slice(0, MAX_FEEDBACK_COMMENT_LENGTH),
+                tags: Array.from(new Set(tags)),
+                createdAt: FieldValue.serverTimestamp()
+            });
+
+            res.status(200).json({ message: 'Feedback submitted' });
+        } catch (error) {
+            console.error('Feedback submit error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
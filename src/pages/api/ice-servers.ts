@@ -0,0 +1,24 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, authMiddleware } from '../../middleware/authMiddleware';
+import { getIceServers, TURN_CREDENTIAL_TTL_SECONDS } from '../../lib/iceServers';
+
+// STUN/TURN servers for the call page, fetched right before it sets up the peer connection
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await authMiddleware(req, res, async () => {
+        try {
+            // The credentials are per user and expire, never let anything cache them
+            res.setHeader('Cache-Control', 'no-store');
+            res.status(200).json({
+                iceServers: getIceServers(req.user.uid),
+                ttl: TURN_CREDENTIAL_TTL_SECONDS
+            });
+        } catch (error) {
+            console.error('ICE servers error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
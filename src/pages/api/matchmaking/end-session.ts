@@ -1,7 +1,7 @@
 import { NextApiResponse } from 'next';
 import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
 import { db } from '../../../config/firebase-admin';
-import { FieldValue } from 'firebase-admin/firestore';
+import { InvalidTransitionError, transitionSession } from '../../../lib/sessionLifecycle';
 
 export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
     if (req.method !== 'POST') {
@@ -23,29 +23,18 @@ export default async function handler(req: AuthenticatedRequest, res: NextApiRes
                 return res.status(403).json({ error: 'Not authorized to end this session' });
             }
 
-            // Update all participants
-            const batch = db.batch();
-            for (const participantId of sessionData.participants) {
-                const userRef = db.collection('users').doc(participantId);
-                batch.update(userRef, {
-                    activeSession: null
-                });
-            }
-
-            // Mark session as ended
-            const sessionRef = db.collection('sessions').doc(sessionId);
-            batch.update(sessionRef, {
-                status: 'ended',
-                endedAt: FieldValue.serverTimestamp(),
+            // Marks the session ended, clears activeSession for both participants and records the outcome
+            await transitionSession(sessionId, 'ended', {
                 endedBy: req.user.uid
             });
 
-            await batch.commit();
-
             res.status(200).json({ message: 'Session ended successfully' });
         } catch (error) {
+            if (error instanceof InvalidTransitionError) {
+                return res.status(200).json({ message: 'Session already ended' });
+            }
             console.error('Error ending session:', error);
             res.status(500).json({ error: 'Failed to end session' });
         }
     });
-} 
\ No newline at end of file
+}
@@ -0,0 +1,40 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
+import { db } from '../../../config/firebase-admin';
+import { Timestamp } from 'firebase-admin/firestore';
+
+// Keeps the caller's queue entry and active session from being swept as abandoned
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await authMiddleware(req, res, async () => {
+        try {
+            const now = Timestamp.now();
+
+            const queueRef = db.collection('matchmaking_queue').doc(req.user.uid);
+            const userDoc = await db.collection('users').doc(req.user.uid).get();
+            const activeSession = userDoc.data()?.activeSession;
+
+            await db.runTransaction(async (transaction) => {
+                const queueDoc = await transaction.get(queueRef);
+                const sessionDoc = activeSession
+                    ? await transaction.get(db.collection('sessions').doc(activeSession))
+                    : null;
+
+                if (queueDoc.exists) {
+                    transaction.update(queueRef, { lastHeartbeat: now });
+                }
+                if (sessionDoc?.exists) {
+                    transaction.update(sessionDoc.ref, { [`lastSeen.${req.user.uid}`]: now });
+                }
+            });
+
+            res.status(200).json({ message: 'ok' });
+        } catch (error) {
+            console.error('Heartbeat error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
@@ -2,6 +2,8 @@ import { NextApiResponse } from 'next';
 import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
 import { db } from '../../../config/firebase-admin';
 import { Timestamp } from 'firebase-admin/firestore';
+import { saveExcludedPartners } from '../../../lib/matchHistory';
+import { getRequeueDelayMs } from '../../../lib/skipStats';
 
 export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
     if (req.method !== 'POST') {
@@ -18,11 +20,23 @@ export default async function handler(req: AuthenticatedRequest, res: NextApiRes
                 return res.status(400).json({ error: 'User already in active session' });
             }
 
+            // People who bail out of most calls within seconds wait a bit before they can be matched again
+            // Saved before the entry exists, so the matcher never sees it without its exclusions
+            const [requeueDelayMs] = await Promise.all([
+                getRequeueDelayMs(req.user.uid),
+                saveExcludedPartners(req.user.uid)
+            ]);
+
             // Add user to queue
             await db.collection('matchmaking_queue').doc(req.user.uid).set({
                 userId: req.user.uid,
                 joinedAt: Timestamp.now(),
-                status: 'waiting'
+                lastHeartbeat: Timestamp.now(),
+                eligibleAt: Timestamp.fromMillis(Date.now() + requeueDelayMs),
+                status: 'waiting',
+                // Copied from the profile so the matcher can filter without extra reads
+                gender: userData?.gender || null,
+                lookingFor: userData?.lookingFor || 'any'
             });
 
             res.status(200).json({ message: 'Joined queue successfully' });
@@ -1,7 +1,8 @@
 import { NextApiResponse } from 'next';
 import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
 import { db } from '../../../config/firebase-admin';
-import { Timestamp } from 'firebase-admin/firestore';
+import { estimateWaitSeconds, getQueuePosition } from '../../../lib/queueStats';
+import { isStale, PARTNER_ONLINE_TIMEOUT_MS } from '../../../lib/presence';
 
 export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
     if (req.method !== 'GET') {
@@ -29,7 +30,8 @@ export default async function handler(req: AuthenticatedRequest, res: NextApiRes
                 const sessionData = sessionDoc.data();
                 console.log('Session data:', sessionData);
 
-                if (sessionData) {
+                // Phases are moved forward by the session timer worker, this only reports them
+                if (sessionData && sessionData.status !== 'ended') {
                     const now = Date.now();
                     const videoEndTime = sessionData.videoEndTime.toDate().getTime();
                     const chatEndTime = sessionData.chatEndTime.toDate().getTime();
@@ -40,25 +42,15 @@ export default async function handler(req: AuthenticatedRequest, res: NextApiRes
                     const partnerData = partnerDoc.data();
                     const partnerName = partnerData?.displayName || 'Anonymous User';
 
-                    if (now >= chatEndTime) {
-                        // Session has completely ended - remove cooldown
-                        await db.collection('users').doc(req.user.uid).update({
-                            activeSession: null,
+                    if (sessionData.status === 'cooldown') {
+                        return res.status(200).json({
+                            status: 'cooldown',
+                            sessionId: userData.activeSession,
+                            cooldownEnd: sessionData.cooldownEnds?.toDate()
                         });
-
-                        // Delete the session if it's the last participant to leave
-                        const otherParticipant = await db.collection('users')
-                            .where('activeSession', '==', userData.activeSession)
-                            .get();
-
-                        if (otherParticipant.empty) {
-                            await db.collection('sessions').doc(userData.activeSession).delete();
-                        }
-
-                        return res.status(200).json({ status: 'ended' });
                     }
 
-                    if (now >= videoEndTime) {
+                    if (sessionData.status === 'chat') {
                         // In chat phase
                         return res.status(200).json({
                             status: 'in_chat',
@@ -76,7 +68,9 @@ export default async function handler(req: AuthenticatedRequest, res: NextApiRes
                         partnerId: partnerId,
                         partnerName: partnerName,
                         videoTimeLeft: Math.max(0, videoEndTime - now),
-                        peerIds: sessionData.peerIds || {}
+                        peerIds: sessionData.peerIds || {},
+                        // Lets a client that rejoins after a refresh tell a slow reconnect from a partner who is gone
+                        partnerOnline: !isStale(sessionData.lastSeen?.[partnerId], PARTNER_ONLINE_TIMEOUT_MS, now)
                     });
                 }
             }
@@ -92,10 +86,13 @@ export default async function handler(req: AuthenticatedRequest, res: NextApiRes
             // Check queue status
             const queueDoc = await db.collection('matchmaking_queue').doc(req.user.uid).get();
             if (queueDoc.exists) {
+                const joinedAt = queueDoc.data()?.joinedAt;
+                const queuePosition = await getQueuePosition(joinedAt);
                 return res.status(200).json({
                     status: 'queued',
-                    queuedAt: queueDoc.data()?.joinedAt.toDate(),
-                    queuePosition: queueCount,
+                    queuedAt: joinedAt.toDate(),
+                    queuePosition: queuePosition,
+                    estimatedWaitSeconds: await estimateWaitSeconds(queuePosition),
                     totalInQueue: queueCount,
                     activeCallsCount: activeCallsCount
                 });
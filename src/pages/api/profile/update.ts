@@ -9,9 +9,9 @@ export default async function handler(req: AuthenticatedRequest, res: NextApiRes
 
     await authMiddleware(req, res, async () => {
         try {
-            const { name, gender } = req.body;
+            const { name, gender, lookingFor = 'any' } = req.body;
 
-            if (!name?.trim() || !['male', 'female'].includes(gender)) {
+            if (!name?.trim() || !['male', 'female'].includes(gender) || !['male', 'female', 'any'].includes(lookingFor)) {
                 return res.status(400).json({ error: 'Invalid profile data' });
             }
 
@@ -24,6 +24,7 @@ export default async function handler(req: AuthenticatedRequest, res: NextApiRes
                     email: req.user.email,
                     name: name.trim(),
                     gender,
+                    lookingFor,
                     createdAt: new Date(),
                     updatedAt: new Date()
                 });
@@ -32,6 +33,7 @@ export default async function handler(req: AuthenticatedRequest, res: NextApiRes
                 await userRef.update({
                     name: name.trim(),
                     gender,
+                    lookingFor,
                     updatedAt: new Date()
                 });
             }
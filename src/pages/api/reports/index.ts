@@ -0,0 +1,59 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
+import { db } from '../../../config/firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import { isReportReason, MAX_REPORT_DETAILS_LENGTH } from '../../../lib/reports';
+import { getRecentMessages, withHeldOriginals } from '../../../lib/messages';
+
+// Number of most recent chat messages copied into the report as evidence
+const MESSAGE_SNAPSHOT_SIZE = 50;
+
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await authMiddleware(req, res, async () => {
+        try {
+            const { sessionId, reason, details = '' } = req.body;
+
+            if (typeof sessionId !== 'string' || !sessionId || !isReportReason(reason) || typeof details !== 'string') {
+                return res.status(400).json({ error: 'Invalid report' });
+            }
+
+            const sessionDoc = await db.collection('sessions').doc(sessionId).get();
+            const sessionData = sessionDoc.data();
+
+            if (!sessionData || !sessionData.participants.includes(req.user.uid)) {
+                return res.status(403).json({ error: 'Not authorized for this session' });
+            }
+
+            // One report per person per session, so reporting twice doesn't duplicate the moderation work
+            const reportRef = db.collection('reports').doc(`${sessionId}_${req.user.uid}`);
+            if ((await reportRef.get()).exists) {
+                return res.status(409).json({ error: 'You already reported this session' });
+            }
+
+            const reportedUserId = sessionData.participants.find((p: string) => p !== req.user.uid);
+            // Moderators need what was actually sent, not the masked copy the reporter saw
+            const messages = await withHeldOriginals(sessionId, await getRecentMessages(sessionId, MESSAGE_SNAPSHOT_SIZE));
+
+            await reportRef.set({
+                reporterId: req.user.uid,
+                reportedUserId,
+                sessionId,
+                reason,
+                details: details.trim().slice(0, MAX_REPORT_DETAILS_LENGTH),
+                messages,
+                sessionStatus: sessionData.status,
+                status: 'open',
+                createdAt: FieldValue.serverTimestamp()
+            });
+
+            res.status(200).json({ message: 'Report submitted' });
+        } catch (error) {
+            console.error('Report submit error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
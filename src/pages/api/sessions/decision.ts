@@ -0,0 +1,67 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
+import { db } from '../../../config/firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import { connectionRef, createConnection, decisionRef, isDecision } from '../../../lib/connections';
+
+// Like or pass on the partner once the video phase is over. Two likes create a connection, and only
+// that outcome is put on the session, a pass is never shown to the partner.
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await authMiddleware(req, res, async () => {
+        try {
+            const { sessionId, decision } = req.body;
+
+            if (typeof sessionId !== 'string' || !sessionId || !isDecision(decision)) {
+                return res.status(400).json({ error: 'Invalid decision' });
+            }
+
+            const sessionRef = db.collection('sessions').doc(sessionId);
+
+            const result = await db.runTransaction(async (transaction) => {
+                const sessionDoc = await transaction.get(sessionRef);
+                const sessionData = sessionDoc.data();
+
+                if (!sessionData || !sessionData.participants.includes(req.user.uid)) {
+                    return { status: 403, body: { error: 'Not authorized for this session' } };
+                }
+                if (sessionData.status !== 'chat' && sessionData.status !== 'cooldown') {
+                    return { status: 409, body: { error: 'Decisions open once the video call is over' } };
+                }
+
+                const partnerId = sessionData.participants.find((p: string) => p !== req.user.uid);
+                const [ownDecision, partnerDecision] = await transaction.getAll(
+                    decisionRef(sessionId, req.user.uid),
+                    decisionRef(sessionId, partnerId)
+                );
+                if (ownDecision.exists) {
+                    return { status: 409, body: { error: 'You already decided' } };
+                }
+
+                const mutual = decision === 'like' && partnerDecision.data()?.decision === 'like';
+                const connection = connectionRef(req.user.uid, partnerId);
+                const existing = mutual ? await transaction.get(connection) : null;
+
+                transaction.set(ownDecision.ref, { decision, createdAt: FieldValue.serverTimestamp() });
+                transaction.update(sessionRef, {
+                    [`decided.${req.user.uid}`]: true,
+                    ...(mutual ? { connectionId: connection.id } : {})
+                });
+                // They may have connected in an earlier session already
+                if (mutual && !existing?.exists) {
+                    createConnection(transaction, sessionData.participants, sessionId);
+                }
+
+                return { status: 200, body: { mutual } };
+            });
+
+            res.status(result.status).json(result.body);
+        } catch (error) {
+            console.error('Session decision error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
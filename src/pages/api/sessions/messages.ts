@@ -0,0 +1,73 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
+import { db } from '../../../config/firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import { blockRef } from '../../../lib/blocks';
+import { containsContactInfo, maskContactInfo } from '../../../lib/contactGuard';
+import { filterBlockedWords, MAX_MESSAGE_LENGTH, MESSAGE_RATE_LIMIT, MESSAGE_RATE_WINDOW_MS } from '../../../lib/messageFilter';
+import { consumeRateLimit } from '../../../lib/rateLimit';
+
+// The only way to post in a session chat, Firestore rules deny direct writes to the messages
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await authMiddleware(req, res, async () => {
+        try {
+            const { sessionId, text } = req.body;
+
+            if (typeof sessionId !== 'string' || !sessionId || typeof text !== 'string' || !text.trim()) {
+                return res.status(400).json({ error: 'Invalid message' });
+            }
+            if (text.trim().length > MAX_MESSAGE_LENGTH) {
+                return res.status(400).json({ error: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters` });
+            }
+
+            // Verify user is part of the session
+            const sessionRef = db.collection('sessions').doc(sessionId);
+            const sessionDoc = await sessionRef.get();
+            const sessionData = sessionDoc.data();
+
+            if (!sessionData || !sessionData.participants.includes(req.user.uid)) {
+                return res.status(403).json({ error: 'Not authorized for this session' });
+            }
+            if (sessionData.status !== 'video' && sessionData.status !== 'chat') {
+                return res.status(409).json({ error: 'Chat is closed' });
+            }
+
+            const partnerId = sessionData.participants.find((p: string) => p !== req.user.uid);
+            if ((await blockRef(partnerId, req.user.uid).get()).exists) {
+                return res.status(403).json({ error: 'Not authorized for this session' });
+            }
+
+            if (!await consumeRateLimit(`messages_${req.user.uid}`, MESSAGE_RATE_LIMIT, MESSAGE_RATE_WINDOW_MS)) {
+                return res.status(429).json({ error: 'You are sending messages too fast' });
+            }
+
+            const { text: original, filtered } = filterBlockedWords(text.trim());
+            // Until both sides agreed to share contacts the partner only sees a masked copy,
+            // the original waits in held_messages where no client can read it
+            const masked = !sessionData.contactsRevealed && containsContactInfo(original);
+
+            const messageRef = sessionRef.collection('messages').doc();
+            const batch = db.batch();
+            batch.set(messageRef, {
+                text: masked ? maskContactInfo(original) : original,
+                senderId: req.user.uid,
+                timestamp: FieldValue.serverTimestamp(),
+                masked,
+                filtered
+            });
+            if (masked) {
+                batch.set(sessionRef.collection('held_messages').doc(messageRef.id), { text: original });
+            }
+            await batch.commit();
+
+            res.status(200).json({ id: messageRef.id, masked });
+        } catch (error) {
+            console.error('Send message error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
@@ -0,0 +1,60 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
+import { db } from '../../../config/firebase-admin';
+
+// Records that the caller agrees to exchange contact details. Once both participants have agreed,
+// every held back message is revealed and later messages are no longer masked.
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await authMiddleware(req, res, async () => {
+        try {
+            const { sessionId } = req.body;
+
+            if (typeof sessionId !== 'string' || !sessionId) {
+                return res.status(400).json({ error: 'Invalid session' });
+            }
+
+            const sessionRef = db.collection('sessions').doc(sessionId);
+
+            const result = await db.runTransaction(async (transaction) => {
+                const sessionDoc = await transaction.get(sessionRef);
+                const sessionData = sessionDoc.data();
+
+                if (!sessionData || !sessionData.participants.includes(req.user.uid)) {
+                    return { status: 403, body: { error: 'Not authorized for this session' } };
+                }
+                if (sessionData.status !== 'chat') {
+                    return { status: 409, body: { error: 'Contacts can only be shared during the chat' } };
+                }
+
+                const partnerId = sessionData.participants.find((p: string) => p !== req.user.uid);
+                const revealed = !!sessionData.contactsShared?.[partnerId];
+
+                // Reads have to happen before any writes in a transaction
+                const heldSnapshot = revealed ? await transaction.get(sessionRef.collection('held_messages')) : null;
+
+                transaction.update(sessionRef, {
+                    [`contactsShared.${req.user.uid}`]: true,
+                    contactsRevealed: revealed
+                });
+                heldSnapshot?.docs.forEach(heldDoc => {
+                    transaction.update(sessionRef.collection('messages').doc(heldDoc.id), {
+                        text: heldDoc.data().text,
+                        masked: false
+                    });
+                    transaction.delete(heldDoc.ref);
+                });
+
+                return { status: 200, body: { revealed } };
+            });
+
+            res.status(result.status).json(result.body);
+        } catch (error) {
+            console.error('Share contacts error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
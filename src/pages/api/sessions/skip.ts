@@ -0,0 +1,57 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
+import { db } from '../../../config/firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import { isEarlyEnd } from '../../../lib/matchHistory';
+import { InvalidTransitionError, transitionSession } from '../../../lib/sessionLifecycle';
+import { isSkipReason } from '../../../lib/skips';
+
+// Leaves a call early with a reason. The partner is only told the call was skipped, the reason
+// is kept in skips/{sessionId} where clients can't read it.
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await authMiddleware(req, res, async () => {
+        try {
+            const { sessionId, reason } = req.body;
+
+            if (typeof sessionId !== 'string' || !sessionId || !isSkipReason(reason)) {
+                return res.status(400).json({ error: 'Invalid skip' });
+            }
+
+            const sessionDoc = await db.collection('sessions').doc(sessionId).get();
+            const sessionData = sessionDoc.data();
+
+            if (!sessionData || !sessionData.participants.includes(req.user.uid)) {
+                return res.status(403).json({ error: 'Not authorized for this session' });
+            }
+
+            const { sessionData: skippedSession } = await transitionSession(sessionId, 'ended', {
+                endedBy: req.user.uid,
+                endReason: 'skipped'
+            });
+
+            const quickSkip = isEarlyEnd(skippedSession);
+            const partnerId = skippedSession.participants.find((p: string) => p !== req.user.uid);
+
+            await db.collection('skips').doc(sessionId).set({
+                userId: req.user.uid,
+                partnerId,
+                reason,
+                phase: skippedSession.status,
+                quickSkip,
+                createdAt: FieldValue.serverTimestamp()
+            });
+
+            res.status(200).json({ message: 'Session skipped' });
+        } catch (error) {
+            if (error instanceof InvalidTransitionError) {
+                return res.status(200).json({ message: 'Session already ended' });
+            }
+            console.error('Skip session error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
@@ -0,0 +1,40 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '../../../config/firebase-admin';
+import { blockRef } from '../../../lib/blocks';
+import { callInviteRef } from '../../../lib/callInvites';
+import { connectionRef } from '../../../lib/connections';
+
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await authMiddleware(req, res, async () => {
+        try {
+            const { userId } = req.body;
+
+            if (typeof userId !== 'string' || !userId || userId === req.user.uid) {
+                return res.status(400).json({ error: 'Invalid user' });
+            }
+
+            // Blocking also ends any connection the two had, and the call invite that may be open on it
+            const connection = connectionRef(req.user.uid, userId);
+            const batch = db.batch();
+            batch.set(blockRef(req.user.uid, userId), {
+                blockerId: req.user.uid,
+                blockedId: userId,
+                createdAt: FieldValue.serverTimestamp()
+            });
+            batch.delete(connection);
+            batch.delete(callInviteRef(connection.id));
+            await batch.commit();
+
+            res.status(200).json({ message: 'User blocked' });
+        } catch (error) {
+            console.error('Block user error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
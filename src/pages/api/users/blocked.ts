@@ -0,0 +1,32 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
+import { db } from '../../../config/firebase-admin';
+
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await authMiddleware(req, res, async () => {
+        try {
+            const blockedSnapshot = await db.collection('users').doc(req.user.uid)
+                .collection('blocked')
+                .orderBy('createdAt', 'desc')
+                .get();
+
+            const userRefs = blockedSnapshot.docs.map(doc => db.collection('users').doc(doc.id));
+            const userDocs = userRefs.length > 0 ? await db.getAll(...userRefs) : [];
+
+            const blockedUsers = blockedSnapshot.docs.map((doc, index) => ({
+                userId: doc.id,
+                name: userDocs[index]?.data()?.name || 'Anonymous User',
+                blockedAt: doc.data().createdAt?.toDate()
+            }));
+
+            res.status(200).json({ blockedUsers });
+        } catch (error) {
+            console.error('Blocked users fetch error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
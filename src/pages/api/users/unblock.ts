@@ -0,0 +1,26 @@
+import { NextApiResponse } from 'next';
+import { AuthenticatedRequest, authMiddleware } from '../../../middleware/authMiddleware';
+import { blockRef } from '../../../lib/blocks';
+
+export default async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    await authMiddleware(req, res, async () => {
+        try {
+            const { userId } = req.body;
+
+            if (typeof userId !== 'string' || !userId) {
+                return res.status(400).json({ error: 'Invalid user' });
+            }
+
+            await blockRef(req.user.uid, userId).delete();
+
+            res.status(200).json({ message: 'User unblocked' });
+        } catch (error) {
+            console.error('Unblock user error:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    });
+}
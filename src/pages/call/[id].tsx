@@ -1,660 +1,104 @@
 import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/router';
 import Layout from '../../components/Layout';
-import { getMatchmakingStatus, updatePeerId, endSession } from '../../utils/api';
+import { getMatchmakingStatus, updatePeerId, endSession, blockUser, sendSessionMessage } from '../../utils/api';
 import { useAuth } from '../../contexts/AuthContext';
-import Peer, { MediaConnection } from 'peerjs';
-import { doc, updateDoc, onSnapshot, arrayUnion, Timestamp } from 'firebase/firestore';
+import { doc, onSnapshot } from 'firebase/firestore';
 import { db } from '../../config/firebase';
-import { setGlobalStream, stopMediaStream } from '../../utils/media';
+import ReportModal from '../../components/ReportModal';
+import SkipModal from '../../components/SkipModal';
+import { useCall } from '../../hooks/useCall';
+import { useHeartbeat } from '../../hooks/useHeartbeat';
+import { useMessages } from '../../hooks/useMessages';
+import { useChatPresence } from '../../hooks/useChatPresence';
 // import { logGoogleEvent } from '../../lib/gtag';
 // import { logFirebaseEvent } from '../../lib/firebaseAnalytics';
 
-interface Message {
-    id: string;
-    text: string;
-    senderId: string;
-    timestamp: Date;
-}
-
 export default function CallPage() {
     const router = useRouter();
     const { id: sessionId } = router.query;
     const { user } = useAuth();
     const [timeLeft, setTimeLeft] = useState(900); // 15 minutes in seconds
+    const [videoEndTime, setVideoEndTime] = useState<number | null>(null);
     const [error, setError] = useState<string | null>(null);
-    const [connectionStatus, setConnectionStatus] = useState<{
-        type: 'connecting' | 'connected' | 'disconnected' | 'failed' | 'checking' | 'closed';
-        detail: string;
-    }>({ type: 'connecting', detail: 'Initializing...' });
-
-    // PeerJS states
-    const [peer, setPeer] = useState<Peer | null>(null);
-    const [currentCall, setCurrentCall] = useState<MediaConnection | null>(null);
-    const [localStream, setLocalStream] = useState<MediaStream | null>(null);
-    const [isMuted, setIsMuted] = useState(false);
-    const [isVideoOff, setIsVideoOff] = useState(false);
 
-    // Add state for partner's peer ID
-    const [partnerPeerId, setPartnerPeerId] = useState<string | null>(null);
-
-    // Add state for remote user's media status
-    const [remoteIsMuted, setRemoteIsMuted] = useState(false);
-    const [remoteIsVideoOff, setRemoteIsVideoOff] = useState(false);
+    useHeartbeat(!!user && !!sessionId);
+
+    const [partnerId, setPartnerId] = useState<string | null>(null);
+
+    // The peer ID is stable per session and user, so after a refresh or a network drop we register
+    // under the same ID and the partner simply takes our new call
+    const call = useCall({
+        peerId: user && sessionId ? `${sessionId}-${user.uid}` : null,
+        sessionId: sessionId as string | undefined,
+        onRegistered: async (peerId) => {
+            // We published a peer for this session before, so this is a refresh or a dropped connection
+            const status = await getMatchmakingStatus();
+            const resuming = status.status === 'in_session' && !!user && !!status.peerIds?.[user.uid];
+
+            console.log('Storing peer ID via API...');
+            await updatePeerId(sessionId as string, peerId);
+            return { resuming, partnerOnline: status.partnerOnline };
+        },
+        resolvePartner: async () => {
+            const status = await getMatchmakingStatus();
+            // The session moved on, the session listener takes it from here
+            if (status.status !== 'in_session') return undefined;
+            return (status.partnerId && status.peerIds?.[status.partnerId]) || null;
+        },
+        // Only our partner in this session can call us
+        acceptCall: (peerId) => peerId.startsWith(`${sessionId}-`),
+        onUnregister: () => {
+            console.log('Removing peer ID via API');
+            updatePeerId(sessionId as string, null).catch(error =>
+                console.error('Failed to remove peer ID:', error)
+            );
+        }
+    });
 
     const localVideoRef = useRef<HTMLVideoElement>(null);
     const remoteVideoRef = useRef<HTMLVideoElement>(null);
 
-    // Add these new state variables at the top of the component
-    const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
-    const [selectedCamera, setSelectedCamera] = useState<string>('');
-
-    // Add state for camera selector visibility
-    const [isCameraSelectorOpen, setIsCameraSelectorOpen] = useState(false);
-
-    // Add state for chat
-    const [isChatOpen, setIsChatOpen] = useState(false);
-    const [message, setMessage] = useState('');
-    const [messages, setMessages] = useState<Message[]>([]);
-
-    // Add at the start of the component
-    useEffect(() => {
-        console.log('Component mounted with:', {
-            sessionId,
-            userId: user?.uid,
-            connectionStatus,
-            hasPeer: !!peer,
-            hasCurrentCall: !!currentCall
-        });
-    }, []);
-
-    // Initialize peer connection
     useEffect(() => {
-        if (!user || !sessionId) return;
-
-        const initializePeer = () => {
-            console.log('Initializing peer with session:', sessionId);
-            const randomSuffix = Math.random().toString(36).substring(2, 15);
-            const myPeerId = `${sessionId}-${user.uid}-${randomSuffix}`;
-            console.log('Generated peer ID:', myPeerId);
-
-            const newPeer = new Peer(myPeerId, {
-                host: '0.peerjs.com',
-                port: 443,
-                path: '/',
-                secure: true,
-                debug: 3,
-                config: {
-                    iceServers: [
-                        { urls: 'stun:stun.l.google.com:19302' },
-                        { urls: 'stun:stun.relay.metered.ca:80' },
-                    ],
-                    iceTransportPolicy: 'all',
-                    iceCandidatePoolSize: 10,
-                    bundlePolicy: 'max-bundle',
-                    rtcpMuxPolicy: 'require'
-                }
-            });
-
-            // Set up media stream early
-            const setupMediaStream = async () => {
-                try {
-                    const stream = await navigator.mediaDevices.getUserMedia({
-                        video: {
-                            deviceId: selectedCamera ? { exact: selectedCamera } : undefined,
-                            width: { ideal: 1280 },
-                            height: { ideal: 720 },
-                            frameRate: { ideal: 30, max: 60 },
-                            aspectRatio: { ideal: 1.7777777778 },
-                        },
-                        audio: {
-                            echoCancellation: true,
-                            noiseSuppression: true,
-                            autoGainControl: true,
-                            sampleRate: 48000,
-                            sampleSize: 16
-                        }
-                    });
-
-                    // Set initial audio state based on isMuted
-                    stream.getAudioTracks().forEach(track => {
-                        track.enabled = !isMuted;
-                    });
-
-                    setLocalStream(stream);
-                    setGlobalStream(stream);
-                    if (localVideoRef.current) {
-                        localVideoRef.current.srcObject = stream;
-                    }
-                    return stream;
-                } catch (err) {
-                    console.error('Failed to get local stream:', err);
-                    setError('Failed to access camera/microphone');
-                    return null;
-                }
-            };
-
-            newPeer.on('open', async () => {
-                console.log('Peer connection opened:', myPeerId);
-                setPeer(newPeer);
-                setConnectionStatus({
-                    type: 'connected',
-                    detail: 'Connected'
-                });
-
-                // Set up local media stream
-                const stream = await setupMediaStream();
-                if (!stream) return;
-
-                try {
-                    console.log('Storing peer ID via API...');
-                    await updatePeerId(sessionId as string, myPeerId);
-                    console.log('Successfully stored peer ID');
-
-                    const attemptConnection = async () => {
-                        console.log('Checking for partner peer ID...');
-                        const status = await getMatchmakingStatus();
-                        console.log('Status response:', status);
-
-                        if (status.partnerId && status.peerIds?.[status.partnerId]) {
-                            const partnerPeerId = status.peerIds[status.partnerId];
-                            console.log('Partner peer ID found:', partnerPeerId);
-                            setPartnerPeerId(partnerPeerId);
-
-                            // Both peers try to call each other, but only the first successful call will be established
-                            if (!currentCall) {
-                                try {
-                                    console.log('Attempting to initiate call to:', partnerPeerId);
-                                    const call = newPeer.call(partnerPeerId, stream);
-                                    setupCallHandlers(call);
-                                } catch (error) {
-                                    console.error('Call initiation failed:', error);
-                                }
-                            }
-                        } else {
-                            console.log('No partner peer ID yet, retrying in 1s');
-                            setTimeout(attemptConnection, 1000);
-                        }
-                    };
-
-                    attemptConnection();
-                } catch (error) {
-                    console.error('Peer setup failed:', error);
-                    setError('Failed to connect with partner');
-                }
-            });
-
-            newPeer.on('call', async (call) => {
-                console.log('Received incoming call from:', call.peer);
-                const stream = localStream || await setupMediaStream();
-                if (!stream) return;
-
-                if (!currentCall) {
-                    console.log('Answering incoming call');
-                    call.answer(stream);
-                    setupCallHandlers(call);
-                } else {
-                    console.log('Already in a call, ignoring incoming call');
-                }
-            });
-
-            newPeer.on('error', (error) => {
-                console.error('Peer error:', { type: error.type, message: error.message });
-                if (error.type === 'unavailable-id') {
-                    console.log('Retrying with new peer ID...');
-                    initializePeer();
-                } else {
-                    setError(`Connection error: ${error.type}`);
-                }
-            });
-
-            newPeer.on('disconnected', () => {
-                console.log('Peer disconnected, attempting reconnect');
-                setConnectionStatus({
-                    type: 'disconnected',
-                    detail: 'Connection interrupted - attempting to reconnect...'
-                });
-                newPeer.reconnect();
-            });
-
-            setPeer(newPeer);
-        };
-
-        const updateConnectionStatus = (pc: RTCPeerConnection) => {
-            pc.oniceconnectionstatechange = () => {
-                console.log('ICE connection state:', pc.iceConnectionState);
-                switch (pc.iceConnectionState) {
-                    case 'checking':
-                        setConnectionStatus({
-                            type: 'checking',
-                            detail: 'Establishing connection...'
-                        });
-                        break;
-                    case 'connected':
-                        setConnectionStatus({
-                            type: 'connected',
-                            detail: 'Connected'
-                        });
-                        break;
-                    case 'completed':
-                        setConnectionStatus({
-                            type: 'connected',
-                            detail: 'Connection optimized'
-                        });
-                        break;
-                    case 'disconnected':
-                        setConnectionStatus({
-                            type: 'disconnected',
-                            detail: 'Connection interrupted - attempting to reconnect...'
-                        });
-                        break;
-                    case 'failed':
-                        setConnectionStatus({
-                            type: 'failed',
-                            detail: 'Connection failed - please refresh'
-                        });
-                        break;
-                    case 'closed':
-                        setConnectionStatus({
-                            type: 'closed',
-                            detail: 'Connection closed'
-                        });
-                        break;
-                }
-            };
-
-            // Enhanced connection quality monitoring
-            if (pc.getStats) {
-                let lastPacketLoss = 0;
-                let consecutivePoorConnections = 0;
-
-                setInterval(async () => {
-                    try {
-                        const stats = await pc.getStats();
-                        let totalPacketsLost = 0;
-                        let totalPackets = 0;
-                        let currentBitrate = 0;
-                        let lastTimestamp: number;
-                        let lastBytes = 0;
-
-                        stats.forEach(stat => {
-                            if (stat.type === 'inbound-rtp' && 'packetsLost' in stat) {
-                                totalPacketsLost += stat.packetsLost as number;
-                                totalPackets += (stat.packetsReceived as number) + (stat.packetsLost as number);
-
-                                // Calculate bitrate
-                                if (lastTimestamp && 'bytesReceived' in stat) {
-                                    const deltaTime = (stat.timestamp - lastTimestamp) / 1000;
-                                    const deltaBytes = (stat.bytesReceived as number) - lastBytes;
-                                    currentBitrate = (deltaBytes * 8) / deltaTime; // bits per second
-                                }
-
-                                if ('timestamp' in stat) {
-                                    lastTimestamp = stat.timestamp;
-                                }
-                                if ('bytesReceived' in stat) {
-                                    lastBytes = stat.bytesReceived as number;
-                                }
-                            }
-                        });
-
-                        if (totalPackets > 0) {
-                            const lossRate = (totalPacketsLost / totalPackets) * 100;
-                            const packetLossIncrease = totalPacketsLost - lastPacketLoss;
-                            lastPacketLoss = totalPacketsLost;
-
-                            // Adaptive quality management
-                            if (lossRate > 15 || packetLossIncrease > 50) {
-                                consecutivePoorConnections++;
-                                if (consecutivePoorConnections >= 3) {
-                                    // Reduce video quality
-                                    const sender = pc.getSenders().find(s => s.track?.kind === 'video');
-                                    if (sender) {
-                                        const params = sender.getParameters();
-                                        if (!params.encodings) {
-                                            params.encodings = [{}];
-                                        }
-                                        params.encodings[0].maxBitrate = Math.max(250000,
-                                            (params.encodings[0].maxBitrate || 1000000) * 0.8);
-                                        sender.setParameters(params).catch(console.error);
-                                    }
-
-                                    setConnectionStatus(prev => ({
-                                        ...prev,
-                                        detail: 'Reducing video quality due to poor connection'
-                                    }));
-                                }
-                            } else {
-                                consecutivePoorConnections = 0;
-                                // Gradually increase quality if connection is good
-                                if (currentBitrate > 0 && currentBitrate < 100000) { // Less than 100kbps
-                                    const sender = pc.getSenders().find(s => s.track?.kind === 'video');
-                                    if (sender) {
-                                        const params = sender.getParameters();
-                                        if (!params.encodings) {
-                                            params.encodings = [{}];
-                                        }
-                                        params.encodings[0].maxBitrate = Math.min(1000000,
-                                            (params.encodings[0].maxBitrate || 250000) * 1.2);
-                                        sender.setParameters(params).catch(console.error);
-                                    }
-                                }
-                            }
-                        }
-                    } catch (error) {
-                        console.error('Failed to get connection stats:', error);
-                    }
-                }, 2000); // Check more frequently
-            }
-        };
-
-        const setupCallHandlers = (call: MediaConnection) => {
-            setCurrentCall(call);
-            setConnectionStatus({
-                type: 'connecting',
-                detail: 'Connecting to peer...'
-            });
-
-            // Access the underlying RTCPeerConnection
-            if (call.peerConnection) {
-                updateConnectionStatus(call.peerConnection);
-            }
-
-            call.on('stream', (remoteStream) => {
-                console.log('Received remote stream');
-                if (remoteVideoRef.current) {
-                    remoteVideoRef.current.srcObject = remoteStream;
-                }
-
-                // Track remote media status changes
-                remoteStream.getAudioTracks().forEach(track => {
-                    track.onmute = () => setRemoteIsMuted(true);
-                    track.onunmute = () => setRemoteIsMuted(false);
-                    setRemoteIsMuted(!track.enabled);
-                });
-
-                remoteStream.getVideoTracks().forEach(track => {
-                    track.onmute = () => setRemoteIsVideoOff(true);
-                    track.onunmute = () => setRemoteIsVideoOff(false);
-                    setRemoteIsVideoOff(!track.enabled);
-                });
-            });
-
-            call.on('error', (err) => {
-                console.error('Call error:', err);
-                setError('Call connection failed');
-                setConnectionStatus({
-                    type: 'failed',
-                    detail: 'Call failed - please refresh'
-                });
-                cleanupMedia();
-            });
-
-            call.on('close', () => {
-                console.log('Call closed');
-                setConnectionStatus({
-                    type: 'closed',
-                    detail: 'Call ended'
-                });
-                cleanupMedia();
-            });
-
-            // Add connection recovery logic
-            let reconnectAttempts = 0;
-            const maxReconnectAttempts = 5;
-
-            const attemptReconnect = async () => {
-                if (reconnectAttempts >= maxReconnectAttempts) {
-                    setError('Unable to restore connection after multiple attempts');
-                    return;
-                }
-
-                reconnectAttempts++;
-                console.log(`Attempting to reconnect (attempt ${reconnectAttempts})`);
-
-                try {
-                    if (call.peerConnection?.connectionState === 'failed') {
-                        // Create a new connection
-                        cleanupMedia();
-                        initializePeer();
-                    } else {
-                        // Try to restart ICE
-                        const pc = call.peerConnection;
-                        if (pc) {
-                            const offer = await pc.createOffer({ iceRestart: true });
-                            await pc.setLocalDescription(offer);
-                        }
-                    }
-                } catch (error) {
-                    console.error('Reconnection attempt failed:', error);
-                    setTimeout(attemptReconnect, 2000 * reconnectAttempts); // Exponential backoff
-                }
-            };
-
-            if (call.peerConnection) {
-                call.peerConnection.onconnectionstatechange = () => {
-                    const state = call.peerConnection?.connectionState;
-                    console.log('Connection state changed:', state);
-
-                    if (state === 'failed') {
-                        attemptReconnect();
-                    } else if (state === 'connected') {
-                        reconnectAttempts = 0; // Reset counter on successful connection
-                    }
-                };
-            }
-        };
-
-        initializePeer();
-
-        return () => {
-            console.log('Component unmounting, cleaning up...');
-            cleanupMedia();
-            if (sessionId && user) {
-                console.log('Removing peer ID via API');
-                updatePeerId(sessionId as string, null).catch(error =>
-                    console.error('Failed to remove peer ID:', error)
-                );
-            }
-        };
-    }, [user, sessionId]);
-
-    // Timer effect
-    useEffect(() => {
-        if (timeLeft <= 0) {
-            if (sessionId) {
-                const sessionRef = doc(db, 'sessions', sessionId as string);
-                updateDoc(sessionRef, {
-                    status: 'chat'
-                }).then(() => {
-                    window.location.reload();
-                }).catch(console.error);
-            }
-        } else {
-            const timer = setTimeout(() => setTimeLeft(timeLeft - 1), 1000);
-            return () => clearTimeout(timer);
-        }
-    }, [timeLeft, sessionId]);
-
-    const cleanupMedia = () => {
-        console.log('Cleaning up media streams...');
-        // refresh after 3 seconds
-
-        // Clean up local stream
-        if (localStream) {
-            localStream.getTracks().forEach(track => {
-                console.log('Stopping track:', track.kind);
-                track.stop();
-                track.enabled = false;
-            });
-            setTimeout(() => window.location.reload())
-            setLocalStream(null);
-        }
-
-        // Clean up global stream
-        stopMediaStream();
-
-        // Clean up video elements
         if (localVideoRef.current) {
-            localVideoRef.current.srcObject = null;
-        }
-        if (remoteVideoRef.current) {
-            remoteVideoRef.current.srcObject = null;
-        }
-
-        // Clean up peer connection
-        if (currentCall) {
-            currentCall.close();
-            setCurrentCall(null);
-        }
-
-        if (peer) {
-            peer.destroy();
-            setPeer(null);
-        }
-
-        // Request all user media and stop it (catches any lingering streams)
-        if (typeof window !== 'undefined') {
-            navigator.mediaDevices.getUserMedia({ video: true, audio: true })
-                .then(stream => {
-                    stream.getTracks().forEach(track => {
-                        track.stop();
-                        track.enabled = false;
-                    });
-                })
-                .catch(console.error);
+            localVideoRef.current.srcObject = call.localStream;
         }
-    };
+    }, [call.localStream]);
 
-    // Add cleanup to the router change event
     useEffect(() => {
-        const handleRouteChange = () => {
-            console.log('Route changing, cleaning up media...');
-            cleanupMedia();
-        };
-
-        router.events.on('routeChangeStart', handleRouteChange);
+        if (remoteVideoRef.current) {
+            remoteVideoRef.current.srcObject = call.remoteStream;
+        }
+    }, [call.remoteStream]);
 
-        return () => {
-            router.events.off('routeChangeStart', handleRouteChange);
-        };
-    }, [router]);
+    // Add state for camera selector visibility
+    const [isCameraSelectorOpen, setIsCameraSelectorOpen] = useState(false);
 
-    const toggleMute = () => {
-        setIsMuted(prev => {
-            const newMuted = !prev;
-            if (user && sessionId) {
-                // logGoogleEvent(newMuted ? 'mic_muted' : 'mic_unmuted', { uid: user.uid, session: sessionId });
-            }
-            return newMuted;
-        });
-    };
+    // Add state for chat
+    const [isChatOpen, setIsChatOpen] = useState(false);
+    const [message, setMessage] = useState('');
+    const { messages, hasMore, isLoadingOlder, loadOlder } = useMessages(sessionId ? `sessions/${sessionId}` : undefined);
+    const [sendError, setSendError] = useState<string | null>(null);
+    const { partnerTyping, partnerLastRead, notifyTyping, stopTyping } = useChatPresence(sessionId ? `sessions/${sessionId}` : undefined, user?.uid, messages);
 
-    const toggleVideo = async () => {
-        if (!localStream) return;
-        if (!isVideoOff) {
-            // Turn video off: stop all video tracks
-            localStream.getVideoTracks().forEach((track) => track.stop());
-            // Create new stream preserving only audio tracks
-            const newStream = new MediaStream(localStream.getAudioTracks());
-            setLocalStream(newStream);
-            if (localVideoRef.current) {
-                localVideoRef.current.srcObject = newStream;
-            }
-            setIsVideoOff(true);
-        } else {
-            // Turn video back on: request new video track only
-            try {
-                const videoStream = await navigator.mediaDevices.getUserMedia({
-                    video: {
-                        width: { ideal: 1280 },
-                        height: { ideal: 720 },
-                        frameRate: { ideal: 30, max: 60 },
-                        aspectRatio: { ideal: 1.7777777778 },
-                    },
-                    audio: false,
-                });
-                // Merge new video tracks with existing audio tracks
-                const audioTracks = localStream.getAudioTracks();
-                const newStream = new MediaStream([...audioTracks, ...videoStream.getVideoTracks()]);
-                setLocalStream(newStream);
-                if (localVideoRef.current) {
-                    localVideoRef.current.srcObject = newStream;
-                }
-                setIsVideoOff(false);
-                if (user && sessionId) {
-                    // logGoogleEvent('video_on', { uid: user.uid, session: sessionId });
-                }
-            } catch (error) {
-                console.error("Error re-enabling video:", error);
-            }
-        }
-    };
+    const [isReportOpen, setIsReportOpen] = useState(false);
+    const [isSkipOpen, setIsSkipOpen] = useState(false);
+    // Set when the other person skipped, so we can say so instead of leaving a frozen video
+    const [partnerSkipped, setPartnerSkipped] = useState(false);
 
-    // Add this new useEffect to get available devices
+    // Timer effect. Display only, the server moves the session to the chat phase when time is up.
     useEffect(() => {
-        const getDevices = async () => {
-            try {
-                const devices = await navigator.mediaDevices.enumerateDevices();
-                const videoDevices = devices.filter(device => device.kind === 'videoinput');
-                setDevices(videoDevices);
+        if (!videoEndTime) return;
 
-                // Set default camera if none selected
-                if (!selectedCamera && videoDevices.length > 0) {
-                    setSelectedCamera(videoDevices[0].deviceId);
-                }
-            } catch (error) {
-                console.error('Failed to get devices:', error);
-            }
+        const updateTimer = () => {
+            setTimeLeft(Math.max(0, Math.floor((videoEndTime - Date.now()) / 1000)));
         };
 
-        navigator.mediaDevices.addEventListener('devicechange', getDevices);
-        getDevices();
-
-        return () => {
-            navigator.mediaDevices.removeEventListener('devicechange', getDevices);
-        };
-    }, []);
+        const timer = setInterval(updateTimer, 1000);
+        updateTimer();
 
-    // Add a function to switch camera
-    const switchCamera = async (deviceId: string) => {
-        setSelectedCamera(deviceId);
-        if (localStream) {
-            // Stop current tracks
-            localStream.getVideoTracks().forEach(track => track.stop());
-
-            try {
-                // Get new stream with selected camera
-                const newStream = await navigator.mediaDevices.getUserMedia({
-                    video: { deviceId },
-                    audio: false
-                });
-
-                // Replace video track
-                const newVideoTrack = newStream.getVideoTracks()[0];
-                const oldVideoTrack = localStream.getVideoTracks()[0];
-                localStream.removeTrack(oldVideoTrack);
-                localStream.addTrack(newVideoTrack);
-
-                // Update local video
-                if (localVideoRef.current) {
-                    localVideoRef.current.srcObject = localStream;
-                }
-
-                // Update remote stream if in call
-                if (currentCall) {
-                    const sender = currentCall.peerConnection?.getSenders()
-                        .find(sender => sender.track?.kind === 'video');
-                    if (sender) {
-                        sender.replaceTrack(newVideoTrack);
-                    }
-                }
-            } catch (error) {
-                console.error('Failed to switch camera:', error);
-                setError('Failed to switch camera');
-            }
-        }
-    };
+        return () => clearInterval(timer);
+    }, [videoEndTime]);
 
     // Update the CameraSelector component
     function CameraSelector() {
@@ -675,17 +119,17 @@ export default function CallPage() {
                             onClick={() => setIsCameraSelectorOpen(false)}
                         />
                         <div className="absolute bottom-full mb-2 z-20 min-w-[200px] bg-gray-700 rounded-lg shadow-lg overflow-hidden">
-                            {devices.map(device => (
+                            {call.devices.map(device => (
                                 <button
                                     key={device.deviceId}
                                     onClick={() => {
-                                        switchCamera(device.deviceId);
+                                        call.switchCamera(device.deviceId);
                                         setIsCameraSelectorOpen(false);
                                     }}
-                                    className={`w-full px-4 py-2 text-left text-sm text-gray-200 hover:bg-gray-600 ${selectedCamera === device.deviceId ? 'bg-gray-600' : ''
+                                    className={`w-full px-4 py-2 text-left text-sm text-gray-200 hover:bg-gray-600 ${call.selectedCamera === device.deviceId ? 'bg-gray-600' : ''
                                         }`}
                                 >
-                                    {device.label || `Camera ${devices.indexOf(device) + 1}`}
+                                    {device.label || `Camera ${call.devices.indexOf(device) + 1}`}
                                 </button>
                             ))}
                         </div>
@@ -706,20 +150,28 @@ export default function CallPage() {
         );
     }
 
-    // Update the handleEndCall function
+    // The session listener moves on to the feedback page once the session has ended
     const handleEndCall = async () => {
         try {
             if (sessionId) {
                 await endSession(sessionId as string);
-                window.location.reload();
             }
         } catch (error) {
             console.error('Failed to end call:', error);
             setError('Failed to end call');
-            window.location.reload();
         }
     };
 
+    const handleBlock = async () => {
+        if (!partnerId || !window.confirm('Block this person? You will not be matched with them again.')) return;
+        try {
+            await blockUser(partnerId);
+        } catch (error) {
+            console.error('Failed to block user:', error);
+        }
+        await handleEndCall();
+    };
+
     // Updated session subscription that replaces polling with realtime Firestore updates.
     useEffect(() => {
         // Ensure we have a valid session id from the router query.
@@ -731,40 +183,32 @@ export default function CallPage() {
             if (docSnap.exists()) {
                 const sessionData = docSnap.data();
 
-                // Verify that the session is still active (in_session).
-                // If the status is no longer 'in_session', redirect with cleanup.
-                if (sessionData.status !== 'in_session' && sessionData.status !== 'video') {
-                    router.push('/?cleanup=true');
+                // The video phase is over: continue in the chat page, or ask how it went if the session ended
+                if (sessionData.status === 'chat') {
+                    router.push(`/chat/${sessionId}`);
                     return;
                 }
-
-                // Update connection status (here using an object; adjust as needed).
-                setConnectionStatus({ type: 'connected', detail: sessionData.status });
-
-                // Update the partner's peer ID from the session data.
-                setPartnerPeerId(sessionData.peerIds?.[sessionData.partnerId] || null);
-
-                // Update the session timer if videoTimeLeft is available.
-                if (sessionData.videoTimeLeft) {
-                    // Assuming videoTimeLeft is in milliseconds.
-                    setTimeLeft(Math.floor(sessionData.videoTimeLeft / 1000));
+                if (sessionData.status === 'ended' && sessionData.endReason === 'skipped' && sessionData.endedBy !== user?.uid) {
+                    setPartnerSkipped(true);
+                    return;
                 }
+                if (sessionData.status !== 'video') {
+                    router.push(`/feedback/${sessionId}`);
+                    return;
+                }
+
+                const sessionPartnerId = sessionData.participants.find((p: string) => p !== user?.uid) || null;
+                setPartnerId(sessionPartnerId);
 
-                // (Optional) Update chat messages if they are stored in the session document.
-                if (sessionData.messages) {
-                    setMessages(
-                        sessionData.messages.map((msg: any) => ({
-                            ...msg,
-                            timestamp: msg.timestamp?.toDate()
-                        }))
-                    );
+                if (sessionData.videoEndTime) {
+                    setVideoEndTime(sessionData.videoEndTime.toMillis());
                 }
             }
         });
 
         // Clean up the subscription on unmount.
         return () => unsubscribeSession();
-    }, [router.query.id, router]);
+    }, [router.query.id, router, user]);
 
     // Add this function to send messages
     const sendMessage = async (e: React.FormEvent) => {
@@ -772,21 +216,14 @@ export default function CallPage() {
         if (!message.trim() || !user || !sessionId) return;
 
         try {
-            const newMessage = {
-                id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                text: message.trim(),
-                senderId: user.uid,
-                timestamp: Timestamp.now()
-            };
-
-            const sessionRef = doc(db, 'sessions', sessionId as string);
-            await updateDoc(sessionRef, {
-                messages: arrayUnion(newMessage)
-            });
+            setSendError(null);
+            await sendSessionMessage(sessionId as string, message.trim());
 
             setMessage('');
+            stopTyping();
         } catch (error) {
             console.error('Error sending message:', error);
+            setSendError(error instanceof Error ? error.message : 'Failed to send message');
         }
     };
 
@@ -812,10 +249,10 @@ export default function CallPage() {
 
     // For example, logging when the local stream is set up
     useEffect(() => {
-        if (localStream && user && sessionId) {
+        if (call.localStream && user && sessionId) {
             // logGoogleEvent('local_stream_started', { uid: user.uid, session: sessionId });
         }
-    }, [localStream]);
+    }, [call.localStream]);
 
     return (
         <Layout>
@@ -826,15 +263,20 @@ export default function CallPage() {
                         ref={remoteVideoRef}
                         autoPlay
                         playsInline
-                        className={`w-full h-full object-cover ${remoteIsVideoOff ? 'invisible' : 'visible'}`}
+                        className={`w-full h-full object-cover ${call.remoteIsVideoOff || call.remoteIsAway ? 'invisible' : 'visible'}`}
                     />
-                    {remoteIsVideoOff && (
-                        <div className="absolute inset-0 flex items-center justify-center bg-gray-800">
+                    {(call.remoteIsVideoOff || call.remoteIsAway) && (
+                        <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-gray-800">
                             <div className="h-20 w-20 sm:h-32 sm:w-32 rounded-full bg-gray-700 flex items-center justify-center">
                                 <span className="text-2xl sm:text-4xl text-gray-400">
-                                    {partnerPeerId?.charAt(0)?.toUpperCase() || '?'}
+                                    {call.remotePeerId?.charAt(0)?.toUpperCase() || '?'}
                                 </span>
                             </div>
+                            {call.remoteIsAway && (
+                                <p className="text-sm sm:text-base text-gray-300">
+                                    Your match stepped away, they&apos;ll be right back
+                                </p>
+                            )}
                         </div>
                     )}
 
@@ -845,15 +287,18 @@ export default function CallPage() {
                             autoPlay
                             playsInline
                             muted
-                            className={`w-full aspect-video object-cover bg-gray-800 ${isVideoOff ? 'invisible' : 'visible'}`}
+                            className={`w-full aspect-video object-cover bg-gray-800 ${call.isVideoOff || call.isAway ? 'invisible' : 'visible'}`}
                         />
-                        {isVideoOff && (
-                            <div className="absolute inset-0 flex items-center justify-center bg-gray-800">
+                        {(call.isVideoOff || call.isAway) && (
+                            <div className="absolute inset-0 flex flex-col items-center justify-center gap-1 bg-gray-800">
                                 <div className="rounded-full bg-gray-700 flex items-center justify-center">
                                     <span className="text-sm sm:text-xl text-gray-400">
                                         {user?.email?.charAt(0)?.toUpperCase() || '?'}
                                     </span>
                                 </div>
+                                {call.isAway && (
+                                    <span className="text-xs text-gray-400">Stepped away</span>
+                                )}
                             </div>
                         )}
                     </div>
@@ -863,20 +308,18 @@ export default function CallPage() {
                         <div className="bg-gray-900/90 text-white/70 px-2 sm:px-3 py-1 w-fit rounded-lg text-xs sm:text-sm">
                             Having issues? Try refreshing the page
                         </div>
-                        <div className={`text-xs sm:text-sm px-2 sm:px-3 py-1 w-fit rounded-lg flex items-center gap-2 ${error ? 'bg-red-500/90 text-white' :
-                            connectionStatus.type === 'connected' ? 'bg-green-500/90 text-white' :
-                                connectionStatus.type === 'checking' ? 'bg-yellow-500/90 text-white' :
-                                    connectionStatus.type === 'failed' ? 'bg-red-500/90 text-white' :
-                                        'bg-gray-900/90 text-white'
+                        <div className={`text-xs sm:text-sm px-2 sm:px-3 py-1 w-fit rounded-lg flex items-center gap-2 ${error || call.error ? 'bg-red-500/90 text-white' :
+                            call.state === 'connected' ? 'bg-green-500/90 text-white' :
+                                call.state === 'connecting' || call.state === 'reconnecting' ? 'bg-yellow-500/90 text-white' :
+                                    'bg-gray-900/90 text-white'
                             }`}>
-                            <div className={`w-2 h-2 rounded-full ${connectionStatus.type === 'connected' ? 'bg-green-300' :
-                                connectionStatus.type === 'checking' ? 'bg-yellow-300' :
-                                    connectionStatus.type === 'failed' ? 'bg-red-300' :
-                                        'bg-gray-300'
+                            <div className={`w-2 h-2 rounded-full ${call.state === 'connected' ? 'bg-green-300' :
+                                call.state === 'connecting' || call.state === 'reconnecting' ? 'bg-yellow-300' :
+                                    'bg-gray-300'
                                 }`} />
-                            <span className="truncate">{error || connectionStatus.detail}</span>
+                            <span className="truncate">{error || call.error || call.detail}</span>
                         </div>
-                        {remoteIsMuted && (
+                        {call.remoteIsMuted && (
                             <div className="bg-gray-900/90 text-white px-2 sm:px-3 py-1 rounded-lg text-xs sm:text-sm flex items-center gap-1">
                                 <MicIcon muted />
                                 <span>Muted</span>
@@ -900,25 +343,48 @@ export default function CallPage() {
                             {/* Controls */}
                             <div className="flex items-center justify-center gap-3 sm:gap-4">
                                 <button
-                                    onClick={toggleMute}
-                                    className={`p-3 sm:p-4 rounded-full ${isMuted ? 'bg-red-500 hover:bg-red-600' : 'bg-gray-700 hover:bg-gray-600'
+                                    onClick={call.toggleMute}
+                                    className={`p-3 sm:p-4 rounded-full ${call.isMuted ? 'bg-red-500 hover:bg-red-600' : 'bg-gray-700 hover:bg-gray-600'
                                         } text-white transition-colors`}
-                                    title={isMuted ? "Unmute" : "Mute"}
+                                    title={call.isMuted ? "Unmute" : "Mute"}
                                 >
-                                    <MicIcon muted={isMuted} />
+                                    <MicIcon muted={call.isMuted} />
                                 </button>
                                 <button
-                                    onClick={toggleVideo}
-                                    className={`p-3 sm:p-4 rounded-full ${isVideoOff ? 'bg-red-500 hover:bg-red-600' : 'bg-gray-700 hover:bg-gray-600'
+                                    onClick={call.toggleVideo}
+                                    className={`p-3 sm:p-4 rounded-full ${call.isVideoOff ? 'bg-red-500 hover:bg-red-600' : 'bg-gray-700 hover:bg-gray-600'
                                         } text-white transition-colors`}
-                                    title={isVideoOff ? "Turn Video On" : "Turn Video Off"}
+                                    title={call.isVideoOff ? "Turn Video On" : "Turn Video Off"}
                                 >
-                                    <CameraIcon disabled={isVideoOff} />
+                                    <CameraIcon disabled={call.isVideoOff} />
                                 </button>
-                                {devices.length > 1 && <CameraSelector />}
+                                <button
+                                    onClick={call.toggleAway}
+                                    className={`p-3 sm:p-4 rounded-full ${call.isAway ? 'bg-yellow-500 hover:bg-yellow-600' : 'bg-gray-700 hover:bg-gray-600'
+                                        } text-white transition-colors`}
+                                    title={call.isAway ? "I'm Back" : "Step Away"}
+                                >
+                                    <PauseIcon />
+                                </button>
+                                {call.devices.length > 1 && <CameraSelector />}
                                 <ChatToggleButton />
                                 <button
-                                    onClick={handleEndCall}
+                                    onClick={() => setIsReportOpen(true)}
+                                    className="p-3 sm:p-4 rounded-full bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+                                    title="Report User"
+                                >
+                                    <FlagIcon />
+                                </button>
+                                <button
+                                    onClick={handleBlock}
+                                    disabled={!partnerId}
+                                    className="p-3 sm:p-4 rounded-full bg-gray-700 hover:bg-gray-600 text-white transition-colors disabled:opacity-50"
+                                    title="Block User"
+                                >
+                                    <BlockIcon />
+                                </button>
+                                <button
+                                    onClick={() => setIsSkipOpen(true)}
                                     className="p-3 sm:p-4 rounded-full bg-red-500 hover:bg-red-600 text-white transition-colors"
                                     title="End Call"
                                 >
@@ -946,6 +412,17 @@ export default function CallPage() {
                         </div>
 
                         <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                            {hasMore && (
+                                <div className="text-center">
+                                    <button
+                                        onClick={loadOlder}
+                                        disabled={isLoadingOlder}
+                                        className="text-sm text-purple-600 hover:underline disabled:opacity-50"
+                                    >
+                                        {isLoadingOlder ? 'Loading...' : 'Load earlier messages'}
+                                    </button>
+                                </div>
+                            )}
                             {messages.map((msg) => (
                                 <div
                                     key={msg.id}
@@ -966,18 +443,26 @@ export default function CallPage() {
                                                 hour: '2-digit',
                                                 minute: '2-digit'
                                             })}
+                                            {msg.senderId === user?.uid && partnerLastRead !== null && msg.timestamp.getTime() <= partnerLastRead && ' · Seen'}
                                         </div>
                                     </div>
                                 </div>
                             ))}
+                            {partnerTyping && (
+                                <p className="text-sm text-gray-500 italic">Typing...</p>
+                            )}
                         </div>
 
                         <form onSubmit={sendMessage} className="p-4 border-t">
+                            {sendError && <p className="text-sm text-red-500 mb-2">{sendError}</p>}
                             <div className="flex gap-2">
                                 <input
                                     type="text"
                                     value={message}
-                                    onChange={(e) => setMessage(e.target.value)}
+                                    onChange={(e) => {
+                                        setMessage(e.target.value);
+                                        notifyTyping();
+                                    }}
                                     placeholder="Type a message..."
                                     className="flex-1 rounded-full text-gray-900 px-4 py-2 bg-gray-100 focus:outline-none focus:ring-2 focus:ring-purple-600"
                                 />
@@ -994,6 +479,42 @@ export default function CallPage() {
                         </form>
                     </div>
                 )}
+
+                {isSkipOpen && sessionId && !partnerSkipped && (
+                    <SkipModal sessionId={sessionId as string} onClose={() => setIsSkipOpen(false)} />
+                )}
+
+                {call.state === 'reconnecting' && !partnerSkipped && (
+                    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 backdrop-blur-sm pointer-events-none">
+                        <div className="bg-gray-900/90 text-white px-6 py-4 rounded-2xl shadow-xl text-center">
+                            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mx-auto mb-3"></div>
+                            <p className="font-medium">Reconnecting...</p>
+                            <p className="text-sm text-gray-300 mt-1">{call.detail}</p>
+                        </div>
+                    </div>
+                )}
+
+                {partnerSkipped && (
+                    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+                        <div className="bg-white dark:bg-gray-800 p-8 rounded-2xl max-w-md w-full mx-4 shadow-xl text-center">
+                            <div className="text-4xl mb-4">👋</div>
+                            <h3 className="text-2xl font-semibold text-gray-900 dark:text-white mb-2">Your match has moved on</h3>
+                            <p className="text-gray-600 dark:text-gray-300 mb-6">
+                                Not every call clicks, and that&apos;s okay. There are plenty more people to meet.
+                            </p>
+                            <button
+                                onClick={() => router.push(`/feedback/${sessionId}`)}
+                                className="px-6 py-2 rounded-md bg-purple-600 hover:bg-purple-700 text-white"
+                            >
+                                Continue
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {isReportOpen && sessionId && (
+                    <ReportModal sessionId={sessionId as string} onClose={() => setIsReportOpen(false)} />
+                )}
             </div>
         </Layout>
     );
@@ -1041,6 +562,15 @@ function CameraIcon({ disabled = false }: { disabled?: boolean }) {
     );
 }
 
+function PauseIcon() {
+    return (
+        <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <rect x="6" y="4" width="4" height="16" />
+            <rect x="14" y="4" width="4" height="16" />
+        </svg>
+    );
+}
+
 function EndCallIcon() {
     return (
         <svg
@@ -1058,4 +588,22 @@ function EndCallIcon() {
             <line x1="4" y1="20" x2="20" y2="4" stroke="currentColor" strokeWidth="2" />
         </svg>
     );
-} 
\ No newline at end of file
+}
+
+function BlockIcon() {
+    return (
+        <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <circle cx="12" cy="12" r="10" />
+            <line x1="4.93" y1="4.93" x2="19.07" y2="19.07" />
+        </svg>
+    );
+}
+
+function FlagIcon() {
+    return (
+        <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M4 15s1-1 4-1 5 2 8 2 4-1 4-1V3s-1 1-4 1-5-2-8-2-4 1-4 1z" />
+            <line x1="4" y1="22" x2="4" y2="15" />
+        </svg>
+    );
+}
@@ -3,8 +3,11 @@ import { useRouter } from 'next/router';
 import Layout from '../../components/Layout';
 import { useAuth } from '../../contexts/AuthContext';
 import { db } from '../../config/firebase';
-import { doc, updateDoc, onSnapshot, arrayUnion, Timestamp } from 'firebase/firestore';
-import { getMatchmakingStatus } from '../../utils/api';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { blockUser, endSession, sendSessionMessage, shareContacts, submitDecision } from '../../utils/api';
+import ReportModal from '../../components/ReportModal';
+import { useHeartbeat } from '../../hooks/useHeartbeat';
+import ChatWindow from '../../components/ChatWindow';
 
 // Add loading spinner component
 const LoadingSpinner = () => (
@@ -13,140 +16,115 @@ const LoadingSpinner = () => (
     </div>
 );
 
-interface Message {
-    id: string;
-    text: string;
-    senderId: string;
-    timestamp: Date;
-}
+type Decision = 'like' | 'pass';
 
 export default function ChatPage() {
     const router = useRouter();
     const { id: sessionId } = router.query;
     const { user } = useAuth();
-    const [message, setMessage] = useState('');
-    const [messages, setMessages] = useState<Message[]>([]);
     const [partnerId, setPartnerId] = useState<string | null>(null);
-    const [cooldownEnds, setCooldownEnds] = useState<Date | null>(null);
+    const [sessionStatus, setSessionStatus] = useState<'chat' | 'cooldown' | null>(null);
+    const [phaseEndsAt, setPhaseEndsAt] = useState<number | null>(null);
     const [timeLeft, setTimeLeft] = useState<number | null>(null);
     // Add loading state
     const [isLoading, setIsLoading] = useState(true);
-
-    // Fetch session data and messages
+    const [isReportOpen, setIsReportOpen] = useState(false);
+    // Who pressed "Share contacts", contact details in messages stay masked until both did
+    const [contactsShared, setContactsShared] = useState({ mine: false, partner: false });
+    // The partner's answer is never sent to us, only whether it was mutual
+    const [hasDecided, setHasDecided] = useState(false);
+    const [myDecision, setMyDecision] = useState<Decision | null>(null);
+    const [isMutual, setIsMutual] = useState(false);
+
+    useHeartbeat(!!user && !!sessionId);
+
+    // Follow the session document. The server moves the session through its phases,
+    // this page only follows along.
     useEffect(() => {
         if (!user || !sessionId) return;
 
         const sessionRef = doc(db, 'sessions', sessionId as string);
         const unsubscribe = onSnapshot(sessionRef, (doc) => {
-            if (doc.exists()) {
-                const sessionData = doc.data();
-                // Set partner ID
-                const partner = sessionData.participants.find((p: string) => p !== user.uid);
-                setPartnerId(partner);
-
-                // Set messages
-                const sessionMessages = sessionData.messages || [];
-                setMessages(sessionMessages.map((msg: any) => ({
-                    ...msg,
-                    timestamp: msg.timestamp?.toDate()
-                })));
-
-                // Check cooldown
-                if (sessionData.cooldownEnds) {
-                    const cooldownEnd = sessionData.cooldownEnds.toDate();
-                    setCooldownEnds(cooldownEnd);
-                }
-
-                // Set loading to false once we have the data
-                setIsLoading(false);
+            if (!doc.exists()) {
+                router.push('/').catch(console.error);
+                return;
             }
+
+            const sessionData = doc.data();
+
+            if (sessionData.status === 'video') {
+                router.push(`/call/${sessionId}`).catch(console.error);
+                return;
+            }
+            if (sessionData.status !== 'chat' && sessionData.status !== 'cooldown') {
+                router.push(`/feedback/${sessionId}`).catch(console.error);
+                return;
+            }
+
+            setSessionStatus(sessionData.status);
+            setPhaseEndsAt(sessionData.status === 'chat'
+                ? sessionData.chatEndTime.toMillis()
+                : sessionData.cooldownEnds?.toMillis() ?? null);
+
+            // Set partner ID
+            const partner = sessionData.participants.find((p: string) => p !== user.uid);
+            setPartnerId(partner);
+            setHasDecided(!!sessionData.decided?.[user.uid]);
+            setIsMutual(!!sessionData.connectionId);
+            setContactsShared({
+                mine: !!sessionData.contactsShared?.[user.uid],
+                partner: !!sessionData.contactsShared?.[partner]
+            });
+
+            // Set loading to false once we have the data
+            setIsLoading(false);
         });
 
         return () => unsubscribe();
-    }, [user, sessionId]);
+    }, [user, sessionId, router]);
 
-    // Add timer effect for cooldown
+    // Countdown to the end of the current phase, in seconds
     useEffect(() => {
-        if (!cooldownEnds) return;
+        if (!phaseEndsAt) return;
 
         const updateTimer = () => {
-            const now = new Date();
-            const remaining = Math.max(0, cooldownEnds.getTime() - now.getTime());
-            setTimeLeft(remaining);
-
-            if (remaining <= 0) {
-                // Redirect to home when cooldown ends
-                router.push('/');
-            }
+            setTimeLeft(Math.max(0, Math.ceil((phaseEndsAt - Date.now()) / 1000)));
         };
 
         const timer = setInterval(updateTimer, 1000);
         updateTimer(); // Initial update
 
         return () => clearInterval(timer);
-    }, [cooldownEnds, router]);
+    }, [phaseEndsAt]);
 
-    // Update the session check effect
-    useEffect(() => {
-        if (!user || !sessionId) return;
-
-        const checkSession = async () => {
-            try {
-                const status = await getMatchmakingStatus();
-
-                if (status.status === 'ended') {
-                    // Don't wait for router.push to complete
-                    router.push('/').catch(console.error);
-                    return;
-                }
-
-                // Update time left only if we have a valid chat time remaining
-                if (status.chatTimeLeft && status.chatTimeLeft > 0) {
-                    const secondsLeft = Math.ceil(status.chatTimeLeft / 1000);
-                    setTimeLeft(secondsLeft);
-                } else if (status.chatTimeLeft === 0) {
-                    // Don't wait for router.push to complete
-                    router.push('/').catch(console.error);
-                }
-            } catch (error) {
-                console.error('Session check failed:', error);
-            }
-        };
-
-        const interval = setInterval(checkSession, 1000);
-        checkSession();
-
-        return () => clearInterval(interval);
-    }, [user, sessionId, router]);
-
-    // Add effect to handle session end
-    useEffect(() => {
-        if (timeLeft && timeLeft <= 0) {
-            router.push('/');
+    const handleDecision = async (decision: Decision) => {
+        if (!sessionId) return;
+        try {
+            await submitDecision(sessionId as string, decision);
+            setMyDecision(decision);
+        } catch (error) {
+            console.error('Failed to save decision:', error);
         }
-    }, [timeLeft, router]);
-
-    const sendMessage = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!message.trim() || !user || !sessionId) return;
+    };
 
+    const handleShareContacts = async () => {
+        if (!sessionId) return;
         try {
-            const newMessage = {
-                id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                text: message.trim(),
-                senderId: user.uid,
-                timestamp: Timestamp.now()
-            };
-
-            const sessionRef = doc(db, 'sessions', sessionId as string);
-            await updateDoc(sessionRef, {
-                messages: arrayUnion(newMessage)
-            });
+            await shareContacts(sessionId as string);
+        } catch (error) {
+            console.error('Failed to share contacts:', error);
+        }
+    };
 
-            setMessage('');
+    const handleBlock = async () => {
+        if (!partnerId || !sessionId || !window.confirm('Block this person? You will not be matched with them again.')) return;
+        try {
+            await blockUser(partnerId);
+            await endSession(sessionId as string);
         } catch (error) {
-            console.error('Error sending message:', error);
+            console.error('Failed to block user:', error);
         }
+        router.push('/').catch(console.error);
     };
 
     // Add a proper time formatting function
@@ -163,69 +141,81 @@ export default function ChatPage() {
                 <LoadingSpinner />
             ) : (
                 <div className="max-w-2xl mx-auto min-h-[calc(100vh-4rem)] flex flex-col">
-                    {timeLeft && timeLeft > 0 && (
-                        <div className="bg-purple-600/10 dark:bg-purple-400/10 p-4 text-center">
-                            <p className="text-purple-600 dark:text-purple-400">
-                                Chat closes in {formatTimeLeft(timeLeft)}
-                            </p>
+                    <div className="bg-purple-600/10 dark:bg-purple-400/10 p-4 flex items-center justify-between">
+                        <p className="text-purple-600 dark:text-purple-400">
+                            {sessionStatus === 'cooldown'
+                                ? 'Chat closed'
+                                : timeLeft && timeLeft > 0 ? `Chat closes in ${formatTimeLeft(timeLeft)}` : 'Chat'}
+                        </p>
+                        <div className="flex gap-4">
+                            {sessionStatus === 'chat' && (
+                                <button
+                                    onClick={handleShareContacts}
+                                    disabled={contactsShared.mine}
+                                    className="text-sm text-purple-600 dark:text-purple-400 hover:underline disabled:no-underline disabled:opacity-70"
+                                >
+                                    {contactsShared.mine && contactsShared.partner
+                                        ? 'Contacts shared'
+                                        : contactsShared.mine
+                                            ? 'Waiting for them to share'
+                                            : contactsShared.partner ? 'They want to share contacts, share yours' : 'Share contacts'}
+                                </button>
+                            )}
+                            <button
+                                onClick={() => setIsReportOpen(true)}
+                                className="text-sm text-gray-500 dark:text-gray-400 hover:text-red-500 dark:hover:text-red-400"
+                            >
+                                Report
+                            </button>
+                            <button
+                                onClick={handleBlock}
+                                disabled={!partnerId}
+                                className="text-sm text-gray-500 dark:text-gray-400 hover:text-red-500 dark:hover:text-red-400 disabled:opacity-50"
+                            >
+                                Block
+                            </button>
                         </div>
-                    )}
+                    </div>
 
-                    <div className="flex-1 p-4 overflow-y-auto space-y-4">
-                        {messages.map((msg) => (
-                            <div
-                                key={msg.id}
-                                className={`flex ${msg.senderId === user?.uid ? 'justify-end' : 'justify-start'}`}
-                            >
-                                <div
-                                    className={`max-w-[80%] rounded-lg px-4 py-2 ${msg.senderId === user?.uid
-                                        ? 'bg-purple-600 text-white'
-                                        : 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white'
-                                        }`}
+                    <div className="p-4 border-b dark:border-gray-700 text-center">
+                        {!hasDecided ? (
+                            <div className="flex items-center justify-center gap-4">
+                                <p className="text-gray-700 dark:text-gray-300">Would you like to stay in touch?</p>
+                                <button
+                                    onClick={() => handleDecision('like')}
+                                    className="px-4 py-1 rounded-full bg-pink-500 hover:bg-pink-600 text-white"
                                 >
-                                    <div>{msg.text}</div>
-                                    {msg.timestamp && (
-                                        <div className={`text-xs mt-1 ${msg.senderId === user?.uid
-                                            ? 'text-purple-200'
-                                            : 'text-gray-500 dark:text-gray-400'
-                                            }`}>
-                                            {msg.timestamp && new Date(msg.timestamp).toLocaleTimeString([], {
-                                                hour: '2-digit',
-                                                minute: '2-digit'
-                                            })}
-                                        </div>
-                                    )}
-                                </div>
+                                    Like
+                                </button>
+                                <button
+                                    onClick={() => handleDecision('pass')}
+                                    className="px-4 py-1 rounded-full bg-gray-200 hover:bg-gray-300 text-black dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white"
+                                >
+                                    Pass
+                                </button>
                             </div>
-                        ))}
+                        ) : isMutual ? (
+                            <p className="text-pink-500">It&apos;s mutual! You can find them under Connections on your profile.</p>
+                        ) : (
+                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                                {myDecision === 'pass' ? 'You passed.' : myDecision === 'like'
+                                    ? 'You liked them, we will let you know if it is mutual.'
+                                    : 'Your answer is saved, we will let you know if it is mutual.'}
+                            </p>
+                        )}
                     </div>
 
-                    <form onSubmit={sendMessage} className="p-4 border-t dark:border-gray-700">
-                        <div className="flex gap-2">
-                            <input
-                                type="text"
-                                value={message}
-                                onChange={(e) => setMessage(e.target.value)}
-                                placeholder="Type a message..."
-                                className="flex-1 rounded-full text-white px-4 py-2 bg-gray-100 dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-600"
-                            />
-                            <button
-                                type="submit"
-                                className="bg-purple-600 hover:bg-purple-700 text-white rounded-full p-2 transition-colors"
-                                disabled={!message.trim()}
-                            >
-                                <SendIcon />
-                            </button>
-                        </div>
-                    </form>
+                    <ChatWindow
+                        parentPath={`sessions/${sessionId}`}
+                        onSend={(text) => sendSessionMessage(sessionId as string, text)}
+                        disabled={sessionStatus !== 'chat'}
+                    />
                 </div>
             )}
+
+            {isReportOpen && sessionId && (
+                <ReportModal sessionId={sessionId as string} onClose={() => setIsReportOpen(false)} />
+            )}
         </Layout>
     );
 }
-
-const SendIcon = () => (
-    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-    </svg>
-); 
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import { doc, getDoc, onSnapshot } from 'firebase/firestore';
+import Layout from '../../components/Layout';
+import ChatWindow from '../../components/ChatWindow';
+import { useAuth } from '../../contexts/AuthContext';
+import { db } from '../../config/firebase';
+import { respondToCallInvite, sendCallInvite, sendConnectionMessage } from '../../utils/api';
+
+// Conversation with a mutual connection, open for as long as neither side blocks the other
+export default function ConversationPage() {
+    const router = useRouter();
+    const { id: connectionId } = router.query;
+    const { user } = useAuth();
+    const [partnerId, setPartnerId] = useState<string | null>(null);
+    const [partnerName, setPartnerName] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    // Our outgoing call invite, followed until they answer or it lapses
+    const [inviteStatus, setInviteStatus] = useState<string | null>(null);
+    const [inviteError, setInviteError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!user || !connectionId) return;
+
+        const connectionRef = doc(db, 'connections', connectionId as string);
+        const unsubscribe = onSnapshot(connectionRef, (docSnap) => {
+            if (!docSnap.exists()) {
+                // Removed by a block
+                router.push('/connections').catch(console.error);
+                return;
+            }
+
+            setPartnerId(docSnap.data().participants.find((p: string) => p !== user.uid) || null);
+            setIsLoading(false);
+        }, () => {
+            router.push('/connections').catch(console.error);
+        });
+
+        return () => unsubscribe();
+    }, [user, connectionId, router]);
+
+    // The invite document id is the connection id
+    useEffect(() => {
+        if (!user || !connectionId) return;
+
+        const unsubscribe = onSnapshot(doc(db, 'call_invites', connectionId as string), (docSnap) => {
+            const invite = docSnap.data();
+            if (!invite || invite.fromId !== user.uid) {
+                setInviteStatus(null);
+                return;
+            }
+
+            if (invite.status === 'accepted' && invite.sessionId) {
+                router.push(`/call/${invite.sessionId}`).catch(console.error);
+                return;
+            }
+            setInviteStatus(invite.status);
+        }, () => setInviteStatus(null));
+
+        return () => unsubscribe();
+    }, [user, connectionId, router]);
+
+    const handleInvite = async () => {
+        setInviteError(null);
+        try {
+            await sendCallInvite(connectionId as string);
+        } catch (error) {
+            console.error('Failed to send call invite:', error);
+            setInviteError(error instanceof Error ? error.message : 'Failed to send invite');
+        }
+    };
+
+    const handleCancelInvite = async () => {
+        try {
+            await respondToCallInvite(connectionId as string, 'cancel');
+        } catch (error) {
+            console.error('Failed to cancel call invite:', error);
+        }
+    };
+
+    useEffect(() => {
+        if (!partnerId) return;
+
+        getDoc(doc(db, 'users', partnerId))
+            .then(userDoc => setPartnerName(userDoc.data()?.name || 'Anonymous User'))
+            .catch(error => console.error('Error loading partner:', error));
+    }, [partnerId]);
+
+    return (
+        <Layout title={partnerName || 'Conversation'}>
+            {isLoading ? (
+                <div className="flex items-center justify-center min-h-[calc(100vh-4rem)]">
+                    <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-purple-600"></div>
+                </div>
+            ) : (
+                <div className="max-w-2xl mx-auto min-h-[calc(100vh-4rem)] flex flex-col">
+                    <div className="bg-purple-600/10 dark:bg-purple-400/10 p-4 flex items-center justify-between">
+                        <p className="font-medium text-purple-600 dark:text-purple-400">{partnerName}</p>
+                        <div className="flex items-center gap-4">
+                            {inviteStatus === 'pending' ? (
+                                <>
+                                    <span className="text-sm text-gray-600 dark:text-gray-300">Calling...</span>
+                                    <button
+                                        onClick={handleCancelInvite}
+                                        className="text-sm text-gray-500 dark:text-gray-400 hover:text-red-500 dark:hover:text-red-400"
+                                    >
+                                        Cancel
+                                    </button>
+                                </>
+                            ) : (
+                                <button
+                                    onClick={handleInvite}
+                                    className="text-sm px-3 py-1 rounded-full bg-purple-600 hover:bg-purple-700 text-white"
+                                >
+                                    Video call
+                                </button>
+                            )}
+                            <Link href="/connections" className="text-sm text-gray-500 dark:text-gray-400 hover:text-purple-600">
+                                All connections
+                            </Link>
+                        </div>
+                    </div>
+                    {(inviteError || inviteStatus === 'declined' || inviteStatus === 'expired') && (
+                        <p className="px-4 pt-2 text-sm text-gray-600 dark:text-gray-400">
+                            {inviteError || (inviteStatus === 'declined' ? `${partnerName} can't talk right now.` : `${partnerName} didn't answer.`)}
+                        </p>
+                    )}
+
+                    <ChatWindow
+                        parentPath={`connections/${connectionId}`}
+                        onSend={(text) => sendConnectionMessage(connectionId as string, text)}
+                    />
+                </div>
+            )}
+        </Layout>
+    );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Layout from '../../components/Layout';
+import { useAuth } from '../../contexts/AuthContext';
+import { getConnections } from '../../utils/api';
+
+interface ConnectionSummary {
+    id: string;
+    userId: string;
+    name: string;
+    connectedAt?: string;
+    lastMessage: {
+        text: string;
+        senderId: string;
+        timestamp?: string;
+    } | null;
+}
+
+export default function ConnectionsPage() {
+    const { user } = useAuth();
+    const [connections, setConnections] = useState<ConnectionSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        if (!user) return;
+
+        getConnections()
+            .then(data => setConnections(data.connections || []))
+            .catch(error => console.error('Error loading connections:', error))
+            .finally(() => setIsLoading(false));
+    }, [user]);
+
+    return (
+        <Layout title="Connections">
+            <div className="max-w-2xl mx-auto p-8">
+                <h1 className="text-3xl font-bold text-black dark:text-white mb-8">Connections</h1>
+
+                {isLoading ? (
+                    <p className="text-gray-600 dark:text-gray-400">Loading...</p>
+                ) : connections.length === 0 ? (
+                    <p className="text-gray-600 dark:text-gray-400">
+                        No connections yet. When you and someone you met both press Like, they show up here.
+                    </p>
+                ) : (
+                    <ul className="space-y-3">
+                        {connections.map(connection => (
+                            <li key={connection.id}>
+                                <Link
+                                    href={`/connections/${connection.id}`}
+                                    className="block bg-white dark:bg-gray-800 rounded-lg p-4 shadow hover:shadow-lg transition-shadow"
+                                >
+                                    <div className="flex justify-between">
+                                        <p className="font-medium text-black dark:text-white">{connection.name}</p>
+                                        {(connection.lastMessage?.timestamp || connection.connectedAt) && (
+                                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                                {new Date((connection.lastMessage?.timestamp || connection.connectedAt)!).toLocaleDateString()}
+                                            </p>
+                                        )}
+                                    </div>
+                                    <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                                        {connection.lastMessage
+                                            ? `${connection.lastMessage.senderId === user?.uid ? 'You: ' : ''}${connection.lastMessage.text}`
+                                            : 'Say hi!'}
+                                    </p>
+                                </Link>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </Layout>
+    );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import Layout from '../../components/Layout';
+import { submitFeedback } from '../../utils/api';
+import { FEEDBACK_TAGS, FeedbackTag, MAX_FEEDBACK_COMMENT_LENGTH } from '../../lib/feedback';
+
+// Shown once a call is over, before going back home
+export default function FeedbackPage() {
+    const router = useRouter();
+    const { id: sessionId } = router.query;
+    const [rating, setRating] = useState(0);
+    const [feltSafe, setFeltSafe] = useState<boolean | null>(null);
+    const [comment, setComment] = useState('');
+    const [tags, setTags] = useState<FeedbackTag[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const goHome = () => {
+        router.push('/').catch(console.error);
+    };
+
+    const toggleTag = (tag: FeedbackTag) => {
+        setTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!rating || feltSafe === null) {
+            setError('Please pick a rating and tell us whether you felt safe');
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            await submitFeedback(sessionId as string, { rating, feltSafe, comment, tags });
+            goHome();
+        } catch (error) {
+            console.error('Error submitting feedback:', error);
+            setError(error instanceof Error ? error.message : 'Failed to submit feedback');
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Layout title="How did it go?">
+            <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center p-4">
+                <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-2xl p-8 shadow-xl max-w-md w-full space-y-6">
+                    <h1 className="text-2xl font-semibold text-gray-900 dark:text-white text-center">How did it go?</h1>
+
+                    <div className="flex justify-center gap-2">
+                        {[1, 2, 3, 4, 5].map(star => (
+                            <button
+                                key={star}
+                                type="button"
+                                onClick={() => setRating(star)}
+                                className={`text-4xl ${star <= rating ? 'text-yellow-400' : 'text-gray-300 dark:text-gray-600'}`}
+                                aria-label={`${star} star${star > 1 ? 's' : ''}`}
+                            >
+                                ★
+                            </button>
+                        ))}
+                    </div>
+
+                    <div>
+                        <p className="text-gray-700 dark:text-gray-300 mb-2">Did you feel safe?</p>
+                        <div className="flex gap-2">
+                            {[true, false].map(value => (
+                                <button
+                                    key={String(value)}
+                                    type="button"
+                                    onClick={() => setFeltSafe(value)}
+                                    className={`flex-1 px-4 py-2 rounded-md ${feltSafe === value
+                                        ? 'bg-purple-600 text-white'
+                                        : 'bg-gray-200 hover:bg-gray-300 text-black dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-white'
+                                        }`}
+                                >
+                                    {value ? 'Yes' : 'No'}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                        {FEEDBACK_TAGS.map(tag => (
+                            <button
+                                key={tag.value}
+                                type="button"
+                                onClick={() => toggleTag(tag.value)}
+                                className={`px-3 py-1 rounded-full text-sm ${tags.includes(tag.value)
+                                    ? 'bg-purple-600 text-white'
+                                    : 'bg-gray-200 hover:bg-gray-300 text-black dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-white'
+                                    }`}
+                            >
+                                {tag.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <textarea
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        maxLength={MAX_FEEDBACK_COMMENT_LENGTH}
+                        rows={3}
+                        placeholder="Anything else? (optional)"
+                        className="w-full rounded-md px-3 py-2 bg-gray-100 dark:bg-gray-700 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-purple-600"
+                    />
+
+                    {error && <p className="text-red-500 dark:text-red-400 text-sm">{error}</p>}
+
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            onClick={goHome}
+                            className="flex-1 px-4 py-2 rounded-md bg-gray-200 hover:bg-gray-300 text-black dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-white"
+                        >
+                            Skip
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isSubmitting || !sessionId}
+                            className="flex-1 px-4 py-2 rounded-md bg-purple-600 hover:bg-purple-700 text-white disabled:opacity-50"
+                        >
+                            {isSubmitting ? 'Sending...' : 'Send'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </Layout>
+    );
+}
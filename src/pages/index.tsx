@@ -1,16 +1,20 @@
 import Image from "next/image";
 import localFont from "next/font/local";
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import Layout from '../components/Layout';
 import { useRouter } from 'next/router';
-import { joinMatchmaking, getMatchmakingStatus, cancelMatchmaking, createMatch, endSession } from '../utils/api';
+import { joinMatchmaking, getMatchmakingStatus, cancelMatchmaking, endSession } from '../utils/api';
 import ProfileSetup from '../components/ProfileSetup';
+import { useHeartbeat } from '../hooks/useHeartbeat';
 import Link from 'next/link';
 import { FaGithub, FaXTwitter } from 'react-icons/fa6';
 import { doc, onSnapshot, collection, query, where, orderBy, deleteDoc } from 'firebase/firestore';
 import { db } from '../config/firebase';
 
+// How often a queued user's position and wait estimate are refreshed while the queue itself is quiet
+const QUEUE_STATUS_REFRESH_MS = 15000;
+
 type MatchmakingStatus = {
   status: 'idle' | 'queued' | 'in_session' | 'cooldown' | 'connecting' | 'error' | 'matched';
   timeLeft?: number;
@@ -18,6 +22,7 @@ type MatchmakingStatus = {
   cooldownEnd?: number;
   queuedAt?: Date;
   queuePosition?: number;
+  estimatedWaitSeconds?: number | null;
   totalInQueue?: number;
   partnerId?: string;
   partnerName?: string;
@@ -77,6 +82,13 @@ function FallingHearts() {
   );
 }
 
+function formatWaitEstimate(seconds?: number | null) {
+  if (seconds === undefined) return 'Estimating wait...';
+  if (seconds === null) return 'Wait time unknown, nobody has been matched recently';
+  if (seconds < 90) return `Estimated wait: about ${seconds} seconds`;
+  return `Estimated wait: about ${Math.round(seconds / 60)} minutes`;
+}
+
 export default function Home() {
   const { user, signInWithGoogle, profileComplete } = useAuth();
   const router = useRouter();
@@ -87,8 +99,32 @@ export default function Home() {
   const [connectionStatus, setConnectionStatus] = useState<string>('');
   const [isRedirecting, setIsRedirecting] = useState(false);
 
-  // Automatically perform matchmaking if enough users are in queue
-  const matchmakingCalled = useRef(false);
+  // Keeps our queue entry alive while waiting for a match
+  useHeartbeat(status.status === 'queued');
+
+  // Position and wait estimate both come from the status API, which skips entries the matcher won't
+  // pair. Refreshed whenever the queue changes and on an interval, since throughput moves on its own.
+  useEffect(() => {
+    if (status.status !== 'queued') return;
+
+    const refreshQueueStatus = () => {
+      getMatchmakingStatus()
+        .then((statusData) => {
+          if (statusData.status !== 'queued') return;
+          setStatus((prev) => ({
+            ...prev,
+            queuePosition: statusData.queuePosition,
+            estimatedWaitSeconds: statusData.estimatedWaitSeconds
+          }));
+        })
+        .catch((error) => console.error('Failed to fetch queue position:', error));
+    };
+
+    const interval = setInterval(refreshQueueStatus, QUEUE_STATUS_REFRESH_MS);
+    refreshQueueStatus();
+
+    return () => clearInterval(interval);
+  }, [status.status, status.totalInQueue]);
 
   useEffect(() => {
     const { cleanup } = router.query;
@@ -179,21 +215,14 @@ export default function Home() {
     unsubscribes.push(unsubscribeUserQueue);
 
     // Subscribe to the entire matchmaking_queue collection (filtered to waiting users)
-    // to update the total in queue and the user's position in real time.
+    // to update the total in queue in real time. Our position comes from the status API.
     const queueQuery = query(
       collection(db, 'matchmaking_queue'),
       where('status', '==', 'waiting'),
       orderBy('joinedAt')
     );
     const unsubscribeQueue = onSnapshot(queueQuery, (snapshot) => {
-      const totalInQueue = snapshot.size;
-      let queuePosition: number | undefined = undefined;
-      snapshot.docs.forEach((docSnap, index) => {
-        if (docSnap.id === user.uid) {
-          queuePosition = index + 1;
-        }
-      });
-      setStatus((prev) => ({ ...prev, totalInQueue, queuePosition }));
+      setStatus((prev) => ({ ...prev, totalInQueue: snapshot.size }));
     });
     unsubscribes.push(unsubscribeQueue);
 
@@ -231,46 +260,6 @@ export default function Home() {
     };
   }, [user]);
 
-  // Automatically call the match API if enough users are waiting
-  useEffect(() => {
-    if (!user) return;
-    if (
-      status.status === 'queued' &&
-      status.totalInQueue &&
-      status.totalInQueue >= 2 &&
-      !matchmakingCalled.current
-    ) {
-      matchmakingCalled.current = true;
-      console.log("Automatically calling createMatch API");
-      // logFirebaseEvent('auto_create_match_initiated', { uid: user?.uid });
-      createMatch()
-        .then((response) => {
-          console.log("Match API response:", response);
-          if (response.status === 'success' && response.matches && Array.isArray(response.matches)) {
-            // Find the match that includes the current user
-            const matchForUser = response.matches.find((match: { participants: string[] }) =>
-              match.participants.includes(user.uid)
-            );
-            if (matchForUser) {
-              setStatus((prev) => ({
-                ...prev,
-                status: 'in_session',
-                sessionId: matchForUser.sessionId
-              }));
-              // logFirebaseEvent('auto_create_match_success', { uid: user?.uid, session: matchForUser.sessionId });
-            }
-          }
-        })
-        .catch((error) => {
-          console.error("Error calling match API:", error);
-          // logFirebaseEvent('auto_create_match_error', { uid: user?.uid, error: error.toString() });
-        })
-        .finally(() => {
-          matchmakingCalled.current = false;
-        });
-    }
-  }, [user, status]);
-
   const startMatching = async () => {
     console.log('Starting matchmaking process...');
     // logFirebaseEvent('matchmaking_join_start', { uid: user?.uid });
@@ -344,6 +333,9 @@ export default function Home() {
             <div className="text-sm text-gray-400 mt-2">
               Your position: {status.queuePosition} of {status.totalInQueue}
             </div>
+            <div className="text-sm text-gray-400">
+              {formatWaitEstimate(status.estimatedWaitSeconds)}
+            </div>
           </div>
         )}
       </div>
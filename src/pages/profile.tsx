@@ -1,6 +1,21 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import Layout from '../components/Layout';
+import Link from 'next/link';
+import { getBlockedUsers, getConnections, unblockUser, updateProfile } from '../utils/api';
+
+interface Connection {
+    id: string;
+    userId: string;
+    name: string;
+    connectedAt?: string;
+}
+
+interface BlockedUser {
+    userId: string;
+    name: string;
+    blockedAt?: string;
+}
 
 export default function Profile() {
     const { user, userProfile } = useAuth();
@@ -8,18 +23,42 @@ export default function Profile() {
     const [isEditing, setIsEditing] = useState(false);
     const [name, setName] = useState('');
     const [gender, setGender] = useState<'male' | 'female'>('male');
+    const [lookingFor, setLookingFor] = useState<'male' | 'female' | 'any'>('any');
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [successMessage, setSuccessMessage] = useState<string | null>(null);
+    const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+    const [connections, setConnections] = useState<Connection[]>([]);
 
     useEffect(() => {
         if (user && userProfile) {
             setName(userProfile.name || '');
             setGender(userProfile.gender || 'male');
+            setLookingFor(userProfile.lookingFor || 'any');
             setLoading(false);
         }
     }, [user, userProfile]);
 
+    useEffect(() => {
+        if (!user) return;
+        getBlockedUsers()
+            .then(data => setBlockedUsers(data.blockedUsers || []))
+            .catch(error => console.error('Error loading blocked users:', error));
+        getConnections()
+            .then(data => setConnections(data.connections || []))
+            .catch(error => console.error('Error loading connections:', error));
+    }, [user]);
+
+    const handleUnblock = async (userId: string) => {
+        try {
+            await unblockUser(userId);
+            setBlockedUsers(prev => prev.filter(blocked => blocked.userId !== userId));
+        } catch (error) {
+            console.error('Error unblocking user:', error);
+            setError('Failed to unblock user. Please try again.');
+        }
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsSubmitting(true);
@@ -27,23 +66,12 @@ export default function Profile() {
         setSuccessMessage(null);
 
         try {
-            const response = await fetch('/api/profile/update', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    Authorization: `Bearer ${await user?.getIdToken()}`
-                },
-                body: JSON.stringify({
-                    name: name.trim(),
-                    gender,
-                }),
+            await updateProfile({
+                name: name.trim(),
+                gender,
+                lookingFor,
             });
 
-            if (!response.ok) {
-                const data = await response.json();
-                throw new Error(data.error || 'Failed to update profile');
-            }
-
             setSuccessMessage('Profile updated successfully');
             setIsEditing(false);
             window.location.reload(); // Reload to update context
@@ -155,6 +183,31 @@ export default function Profile() {
                                     </div>
                                 </div>
 
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                                        Looking for
+                                    </label>
+                                    <div className="flex gap-4">
+                                        {([
+                                            { value: 'male', label: 'Men' },
+                                            { value: 'female', label: 'Women' },
+                                            { value: 'any', label: 'Anyone' },
+                                        ] as const).map(option => (
+                                            <label key={option.value} className="flex items-center">
+                                                <input
+                                                    type="radio"
+                                                    name="lookingFor"
+                                                    value={option.value}
+                                                    checked={lookingFor === option.value}
+                                                    onChange={() => setLookingFor(option.value)}
+                                                    className="mr-2"
+                                                />
+                                                <span className="text-black dark:text-white">{option.label}</span>
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+
                                 <div className="flex gap-4">
                                     <button
                                         type="submit"
@@ -185,6 +238,12 @@ export default function Profile() {
                                             <p className="text-gray-600 dark:text-gray-400">Gender</p>
                                             <p className="text-black dark:text-white capitalize">{userProfile?.gender || 'Not set'}</p>
                                         </div>
+                                        <div>
+                                            <p className="text-gray-600 dark:text-gray-400">Looking for</p>
+                                            <p className="text-black dark:text-white">
+                                                {{ male: 'Men', female: 'Women', any: 'Anyone' }[userProfile?.lookingFor || 'any']}
+                                            </p>
+                                        </div>
                                     </div>
                                 </div>
 
@@ -204,6 +263,52 @@ export default function Profile() {
                             </div>
                         )}
                     </div>
+
+                    {connections.length > 0 && (
+                        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mt-6">
+                            <h3 className="text-lg font-medium text-black dark:text-white mb-4">Connections</h3>
+                            <ul className="space-y-3">
+                                {connections.map(connection => (
+                                    <li key={connection.id}>
+                                        <Link href={`/connections/${connection.id}`} className="text-black dark:text-white hover:text-purple-600">
+                                            {connection.name}
+                                        </Link>
+                                        {connection.connectedAt && (
+                                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                                                Connected on {new Date(connection.connectedAt).toLocaleDateString()}
+                                            </p>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {blockedUsers.length > 0 && (
+                        <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg mt-6">
+                            <h3 className="text-lg font-medium text-black dark:text-white mb-4">Blocked Users</h3>
+                            <ul className="space-y-3">
+                                {blockedUsers.map(blocked => (
+                                    <li key={blocked.userId} className="flex items-center justify-between">
+                                        <div>
+                                            <p className="text-black dark:text-white">{blocked.name}</p>
+                                            {blocked.blockedAt && (
+                                                <p className="text-sm text-gray-600 dark:text-gray-400">
+                                                    Blocked on {new Date(blocked.blockedAt).toLocaleDateString()}
+                                                </p>
+                                            )}
+                                        </div>
+                                        <button
+                                            onClick={() => handleUnblock(blocked.userId)}
+                                            className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 text-black dark:bg-gray-600 dark:hover:bg-gray-700 dark:text-white rounded-md"
+                                        >
+                                            Unblock
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
                 </div>
             </div>
         </Layout>
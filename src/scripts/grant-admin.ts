@@ -0,0 +1,23 @@
+import '../workers/env';
+import { auth } from '../config/firebase-admin';
+
+// Usage: npm run grant-admin -- <email> [--revoke]
+async function main() {
+    const [email, flag] = process.argv.slice(2);
+    if (!email) {
+        console.error('Usage: npm run grant-admin -- <email> [--revoke]');
+        process.exit(1);
+    }
+
+    const user = await auth.getUserByEmail(email);
+    const admin = flag !== '--revoke';
+    await auth.setCustomUserClaims(user.uid, { ...user.customClaims, admin });
+
+    // Claims only show up in new ID tokens, so the user has to sign in again
+    console.log(`${admin ? 'Granted' : 'Revoked'} admin for ${email} (${user.uid}), they need to log in again`);
+}
+
+main().catch(error => {
+    console.error('Failed to update admin claim:', error);
+    process.exit(1);
+});
@@ -8,11 +8,35 @@ export async function getAuthHeader() {
     };
 }
 
+export const ACCOUNT_SUSPENDED_EVENT = 'account-suspended';
+
+export interface AccountSuspension {
+    permanent: boolean;
+    reason: string;
+    until: string | null;
+}
+
+// Authenticated fetch that broadcasts a suspension, so every API call surfaces it the same way
+async function authFetch(url: string, init: RequestInit = {}) {
+    const res = await fetch(url, {
+        ...init,
+        headers: await getAuthHeader(),
+    });
+
+    if (res.status === 403) {
+        const data = await res.clone().json().catch(() => null);
+        if (data?.code === 'account_suspended') {
+            window.dispatchEvent(new CustomEvent<AccountSuspension>(ACCOUNT_SUSPENDED_EVENT, { detail: data.ban }));
+        }
+    }
+
+    return res;
+}
+
 export async function joinMatchmaking() {
     console.log('Sending join matchmaking request');
-    const res = await fetch('/api/matchmaking/join', {
+    const res = await authFetch('/api/matchmaking/join', {
         method: 'POST',
-        headers: await getAuthHeader(),
     });
     const data = await res.json();
     console.log('Join matchmaking response:', data);
@@ -21,38 +45,23 @@ export async function joinMatchmaking() {
 
 export async function getMatchmakingStatus() {
     console.log('Fetching matchmaking status');
-    const res = await fetch('/api/matchmaking/status', {
-        headers: await getAuthHeader(),
-    });
+    const res = await authFetch('/api/matchmaking/status');
     const data = await res.json();
     console.log('Status response:', data);
     return data;
 }
 
-export async function createMatch() {
-    console.log('Sending create match request');
-    const res = await fetch('/api/matchmaking/match', {
-        method: 'POST',
-        headers: await getAuthHeader(),
-    });
-    const data = await res.json();
-    console.log('Create match response:', data);
-    return data;
-}
-
 export async function cancelMatchmaking() {
-    const res = await fetch('/api/matchmaking/cancel', {
+    const res = await authFetch('/api/matchmaking/cancel', {
         method: 'POST',
-        headers: await getAuthHeader(),
     });
     return res.json();
 }
 
 export async function updatePeerId(sessionId: string, peerId: string | null) {
     console.log('Sending update peer ID request:', { sessionId, peerId });
-    const res = await fetch('/api/sessions/update-peer', {
+    const res = await authFetch('/api/sessions/update-peer', {
         method: 'POST',
-        headers: await getAuthHeader(),
         body: JSON.stringify({ sessionId, peerId })
     });
     const data = await res.json();
@@ -60,10 +69,18 @@ export async function updatePeerId(sessionId: string, peerId: string | null) {
     return data;
 }
 
+export async function getIceServers(): Promise<RTCIceServer[]> {
+    const res = await authFetch('/api/ice-servers');
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to load ICE servers');
+    }
+    return data.iceServers;
+}
+
 export const endSession = async (sessionId: string) => {
-    const response = await fetch('/api/matchmaking/end-session', {
+    const response = await authFetch('/api/matchmaking/end-session', {
         method: 'POST',
-        headers: await getAuthHeader(),
         body: JSON.stringify({ sessionId }),
     });
 
@@ -73,4 +90,196 @@ export const endSession = async (sessionId: string) => {
     }
 
     return response.json();
-}; 
\ No newline at end of file
+};
+
+export async function updateProfile(profile: { name: string, gender: string, lookingFor: string }) {
+    const res = await authFetch('/api/profile/update', {
+        method: 'POST',
+        body: JSON.stringify(profile)
+    });
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to update profile');
+    }
+    return data;
+}
+
+export async function blockUser(userId: string) {
+    const res = await authFetch('/api/users/block', {
+        method: 'POST',
+        body: JSON.stringify({ userId })
+    });
+    return res.json();
+}
+
+export async function unblockUser(userId: string) {
+    const res = await authFetch('/api/users/unblock', {
+        method: 'POST',
+        body: JSON.stringify({ userId })
+    });
+    return res.json();
+}
+
+export async function getBlockedUsers() {
+    const res = await authFetch('/api/users/blocked');
+    return res.json();
+}
+
+export async function submitReport(sessionId: string, reason: string, details: string) {
+    const res = await authFetch('/api/reports', {
+        method: 'POST',
+        body: JSON.stringify({ sessionId, reason, details })
+    });
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to submit report');
+    }
+    return data;
+}
+
+export async function getAdminStats() {
+    const res = await authFetch('/api/admin/stats');
+    return res.json();
+}
+
+export async function getAdminReports(status: 'open' | 'actioned' | 'dismissed' = 'open') {
+    const res = await authFetch(`/api/admin/reports?status=${status}`);
+    return res.json();
+}
+
+export async function getAdminReport(reportId: string) {
+    const res = await authFetch(`/api/admin/reports/${reportId}`);
+    return res.json();
+}
+
+export async function resolveReport(
+    reportId: string,
+    action: 'ban' | 'suspend' | 'dismiss',
+    options: { durationHours?: number, reason?: string } = {}
+) {
+    const res = await authFetch(`/api/admin/reports/${reportId}/resolve`, {
+        method: 'POST',
+        body: JSON.stringify({ action, ...options })
+    });
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to resolve report');
+    }
+    return data;
+}
+
+export async function sendHeartbeat() {
+    const res = await authFetch('/api/matchmaking/heartbeat', {
+        method: 'POST',
+    });
+    return res.json();
+}
+
+export async function sendSessionMessage(sessionId: string, text: string) {
+    const res = await authFetch('/api/sessions/messages', {
+        method: 'POST',
+        body: JSON.stringify({ sessionId, text })
+    });
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to send message');
+    }
+    return data;
+}
+
+export async function shareContacts(sessionId: string) {
+    const res = await authFetch('/api/sessions/share-contacts', {
+        method: 'POST',
+        body: JSON.stringify({ sessionId })
+    });
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to share contacts');
+    }
+    return data;
+}
+
+export async function submitDecision(sessionId: string, decision: 'like' | 'pass') {
+    const res = await authFetch('/api/sessions/decision', {
+        method: 'POST',
+        body: JSON.stringify({ sessionId, decision })
+    });
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to save decision');
+    }
+    return data;
+}
+
+export async function getConnections() {
+    const res = await authFetch('/api/connections');
+    return res.json();
+}
+
+export async function sendConnectionMessage(connectionId: string, text: string) {
+    const res = await authFetch('/api/connections/messages', {
+        method: 'POST',
+        body: JSON.stringify({ connectionId, text })
+    });
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to send message');
+    }
+    return data;
+}
+
+export async function sendCallInvite(connectionId: string) {
+    const res = await authFetch('/api/call-invites', {
+        method: 'POST',
+        body: JSON.stringify({ connectionId })
+    });
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to send invite');
+    }
+    return data;
+}
+
+export async function respondToCallInvite(inviteId: string, action: 'accept' | 'decline' | 'cancel') {
+    const res = await authFetch('/api/call-invites/respond', {
+        method: 'POST',
+        body: JSON.stringify({ inviteId, action })
+    });
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to respond to invite');
+    }
+    return data;
+}
+
+export async function submitFeedback(
+    sessionId: string,
+    feedback: { rating: number, feltSafe: boolean, comment: string, tags: string[] }
+) {
+    const res = await authFetch('/api/feedback', {
+        method: 'POST',
+        body: JSON.stringify({ sessionId, ...feedback })
+    });
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to submit feedback');
+    }
+    return data;
+}
+
+export async function getAdminFeedback(days = 7) {
+    const res = await authFetch(`/api/admin/feedback?days=${days}`);
+    return res.json();
+}
+
+export async function skipSession(sessionId: string, reason: string) {
+    const res = await authFetch('/api/sessions/skip', {
+        method: 'POST',
+        body: JSON.stringify({ sessionId, reason })
+    });
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.error || 'Failed to skip');
+    }
+    return data;
+}
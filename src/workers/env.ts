@@ -0,0 +1,5 @@
+import { loadEnvConfig } from '@next/env';
+
+// Load .env.local and friends the same way `next start` does. This has to be imported
+// before anything that touches firebase-admin, since the admin config reads process.env on import.
+loadEnvConfig(process.cwd());
@@ -0,0 +1,20 @@
+import './env';
+import { startMatcher } from './matcher';
+import { startSessionTimer } from './sessionTimer';
+import { startSweeper } from './sweeper';
+
+// Long-running background process, run next to `next start` with `npm run workers`
+const stopMatcher = startMatcher();
+const stopSessionTimer = startSessionTimer();
+const stopSweeper = startSweeper();
+
+const shutdown = () => {
+    console.log('Shutting down workers');
+    stopMatcher();
+    stopSessionTimer();
+    stopSweeper();
+    process.exit(0);
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
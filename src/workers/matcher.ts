@@ -0,0 +1,55 @@
+import { db } from '../config/firebase-admin';
+import { runMatchmaking } from '../lib/matchmaking';
+
+const MATCH_INTERVAL_MS = Number(process.env.MATCHER_INTERVAL_MS) || 3000;
+
+export function startMatcher() {
+    let running = false;
+    let rerun = false;
+    let stopped = false;
+
+    const tick = async () => {
+        if (stopped) return;
+        // Never overlap runs, just remember to go again once the current one finishes
+        if (running) {
+            rerun = true;
+            return;
+        }
+
+        running = true;
+        try {
+            const result = await runMatchmaking();
+            if (result.status === 'success') {
+                console.log(`Matcher created ${result.matches.length} session(s)`);
+            }
+        } catch (error) {
+            console.error('Matcher run failed:', error);
+        } finally {
+            running = false;
+            if (rerun) {
+                rerun = false;
+                tick();
+            }
+        }
+    };
+
+    // React to queue changes immediately, and poll as a fallback in case the listener drops
+    const unsubscribe = db.collection('matchmaking_queue')
+        .where('status', '==', 'waiting')
+        .onSnapshot(snapshot => {
+            if (snapshot.size >= 2) {
+                tick();
+            }
+        }, error => {
+            console.error('Queue listener error:', error);
+        });
+    const interval = setInterval(tick, MATCH_INTERVAL_MS);
+
+    console.log('Matcher started');
+
+    return () => {
+        stopped = true;
+        unsubscribe();
+        clearInterval(interval);
+    };
+}
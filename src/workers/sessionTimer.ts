@@ -0,0 +1,48 @@
+import { db } from '../config/firebase-admin';
+import { advanceSession, getDueTransition, LIVE_SESSION_STATUSES } from '../lib/sessionLifecycle';
+
+const SESSION_TICK_MS = Number(process.env.SESSION_TICK_MS) || 5000;
+
+// Moves live sessions through their phases on time, whether or not anyone still has the page open
+export function startSessionTimer() {
+    let running = false;
+
+    const tick = async () => {
+        if (running) return;
+        running = true;
+
+        try {
+            const liveSessions = await db.collection('sessions')
+                .where('status', 'in', LIVE_SESSION_STATUSES)
+                .get();
+
+            const now = Date.now();
+            for (const sessionDoc of liveSessions.docs) {
+                const sessionData = sessionDoc.data();
+                if (!getDueTransition(sessionData, now)) continue;
+
+                // Running out the video phase counts as a full call for both, which lowers their
+                // skip rates. transitionSession records it.
+                try {
+                    const applied = await advanceSession(sessionDoc.id);
+                    if (applied) {
+                        console.log(`Session ${sessionDoc.id} moved to '${applied}'`);
+                    }
+                } catch (error) {
+                    console.error(`Failed to advance session ${sessionDoc.id}:`, error);
+                }
+            }
+        } catch (error) {
+            console.error('Session timer run failed:', error);
+        } finally {
+            running = false;
+        }
+    };
+
+    const interval = setInterval(tick, SESSION_TICK_MS);
+    tick();
+
+    console.log('Session timer started');
+
+    return () => clearInterval(interval);
+}
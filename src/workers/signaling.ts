@@ -0,0 +1,30 @@
+import './env';
+import { PeerServer } from 'peer';
+
+// Self-hosted PeerJS signaling server, run next to `next start` with `npm run signaling`.
+// The NEXT_PUBLIC_PEER_* settings on the client have to point at it.
+const port = Number(process.env.PEER_SERVER_PORT) || 9000;
+const path = process.env.PEER_SERVER_PATH || '/';
+
+const server = PeerServer({
+    port,
+    path,
+    key: process.env.PEER_SERVER_KEY || 'peerjs',
+    // Set when running behind a reverse proxy that terminates TLS
+    proxied: process.env.PEER_SERVER_PROXIED === 'true',
+    // Peer IDs contain the session and user, so never let clients list them
+    allow_discovery: false
+}, () => {
+    console.log(`Signaling server listening on port ${port}, path ${path}`);
+});
+
+server.on('connection', (client) => console.log('Peer connected:', client.getId()));
+server.on('disconnect', (client) => console.log('Peer disconnected:', client.getId()));
+
+const shutdown = () => {
+    console.log('Shutting down signaling server');
+    process.exit(0);
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
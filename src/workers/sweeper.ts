@@ -0,0 +1,144 @@
+import { db } from '../config/firebase-admin';
+import { isStale, QUEUE_HEARTBEAT_TIMEOUT_MS, SESSION_HEARTBEAT_TIMEOUT_MS } from '../lib/presence';
+import { expireCallInvites } from '../lib/callInvites';
+import { clearSignaling, InvalidTransitionError, LIVE_SESSION_STATUSES, transitionSession } from '../lib/sessionLifecycle';
+
+const SWEEP_INTERVAL_MS = Number(process.env.SWEEP_INTERVAL_MS) || 30000;
+
+// Queue entries whose tab stopped heartbeating
+async function sweepQueue(now: number) {
+    const queueSnapshot = await db.collection('matchmaking_queue').get();
+    const abandoned = queueSnapshot.docs.filter(doc => {
+        const data = doc.data();
+        return isStale(data.lastHeartbeat || data.joinedAt, QUEUE_HEARTBEAT_TIMEOUT_MS, now);
+    });
+
+    let evicted = 0;
+    for (const doc of abandoned) {
+        // Checked again in a transaction, the matcher may have just taken the entry or a heartbeat come in
+        const removed = await db.runTransaction(async (transaction) => {
+            const entryDoc = await transaction.get(doc.ref);
+            const data = entryDoc.data();
+            if (!data || !isStale(data.lastHeartbeat || data.joinedAt, QUEUE_HEARTBEAT_TIMEOUT_MS, now)) {
+                return false;
+            }
+            transaction.delete(doc.ref);
+            return true;
+        });
+        if (removed) evicted++;
+    }
+
+    if (evicted > 0) {
+        console.log(`Sweeper evicted ${evicted} abandoned queue entries`);
+    }
+}
+
+// Video and chat sessions where one of the participants has gone quiet
+async function sweepSessions(now: number) {
+    const sessionsSnapshot = await db.collection('sessions')
+        .where('status', 'in', ['video', 'chat'])
+        .get();
+
+    for (const sessionDoc of sessionsSnapshot.docs) {
+        const data = sessionDoc.data();
+        const orphaned = data.participants.some((id: string) =>
+            isStale(data.lastSeen?.[id] || data.startTime, SESSION_HEARTBEAT_TIMEOUT_MS, now)
+        );
+        if (!orphaned) continue;
+
+        try {
+            await transitionSession(sessionDoc.id, 'ended', { endedBy: null, endReason: 'abandoned' });
+            console.log(`Sweeper ended abandoned session ${sessionDoc.id}`);
+        } catch (error) {
+            if (!(error instanceof InvalidTransitionError)) {
+                console.error(`Failed to end abandoned session ${sessionDoc.id}:`, error);
+            }
+        }
+    }
+}
+
+// Ended sessions whose signaling documents could not be deleted when they ended
+async function sweepSignaling() {
+    const pendingSnapshot = await db.collection('sessions')
+        .where('signalingCleared', '==', false)
+        .get();
+
+    for (const sessionDoc of pendingSnapshot.docs) {
+        try {
+            await clearSignaling(sessionDoc.id);
+        } catch (error) {
+            console.error(`Failed to clear signaling of session ${sessionDoc.id}:`, error);
+        }
+    }
+}
+
+// Users still pointing at a session that has ended or no longer exists
+async function sweepActiveSessions() {
+    const usersSnapshot = await db.collection('users').where('activeSession', '!=', null).get();
+    if (usersSnapshot.empty) return;
+
+    const sessionDocs = await db.getAll(
+        ...usersSnapshot.docs.map(doc => db.collection('sessions').doc(doc.data().activeSession))
+    );
+
+    const candidates = usersSnapshot.docs.filter((userDoc, index) =>
+        !LIVE_SESSION_STATUSES.includes(sessionDocs[index].data()?.status)
+    );
+
+    let cleared = 0;
+    for (const userDoc of candidates) {
+        // Re-read both in a transaction, so a user who was just matched into a new session keeps it
+        const wasCleared = await db.runTransaction(async (transaction) => {
+            const currentUserDoc = await transaction.get(userDoc.ref);
+            const sessionId = currentUserDoc.data()?.activeSession;
+            if (!sessionId) return false;
+
+            const sessionDoc = await transaction.get(db.collection('sessions').doc(sessionId));
+            if (LIVE_SESSION_STATUSES.includes(sessionDoc.data()?.status)) return false;
+
+            transaction.update(userDoc.ref, { activeSession: null });
+            return true;
+        });
+        if (wasCleared) cleared++;
+    }
+
+    if (cleared > 0) {
+        console.log(`Sweeper cleared ${cleared} stale activeSession field(s)`);
+    }
+}
+
+// Call invites nobody answered in time
+async function sweepCallInvites() {
+    const expired = await expireCallInvites();
+    if (expired > 0) {
+        console.log(`Sweeper expired ${expired} call invite(s)`);
+    }
+}
+
+export function startSweeper() {
+    let running = false;
+
+    const sweep = async () => {
+        if (running) return;
+        running = true;
+
+        const now = Date.now();
+        // sweepActiveSessions runs after sweepSessions so it sees the sessions ended there
+        for (const step of [sweepQueue, sweepSessions, sweepSignaling, sweepActiveSessions, sweepCallInvites]) {
+            try {
+                await step(now);
+            } catch (error) {
+                console.error('Sweeper step failed:', error);
+            }
+        }
+
+        running = false;
+    };
+
+    const interval = setInterval(sweep, SWEEP_INTERVAL_MS);
+    sweep();
+
+    console.log('Sweeper started');
+
+    return () => clearInterval(interval);
+}